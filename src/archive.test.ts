@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { execSync } from "child_process"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import * as zlib from "zlib"
+import * as tar from "tar"
+import { extractArchive } from "./archive"
+
+// Builds a minimal zip archive with deflated entries, so that the tests don't depend on a `zip` executable
+const buildZip = (files: Record<string, string>): Buffer => {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  Object.entries(files).forEach(([name, content]) => {
+    const nameBytes = Buffer.from(name, "utf8")
+    const compressed = zlib.deflateRawSync(Buffer.from(content, "utf8"))
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(8, 8)
+    local.writeUInt32LE(compressed.length, 18)
+    local.writeUInt32LE(content.length, 22)
+    local.writeUInt16LE(nameBytes.length, 26)
+    locals.push(local, nameBytes, compressed)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt32LE(compressed.length, 20)
+    central.writeUInt32LE(content.length, 24)
+    central.writeUInt16LE(nameBytes.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centrals.push(central, nameBytes)
+
+    offset += local.length + nameBytes.length + compressed.length
+  })
+
+  const centralDirectory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(Object.keys(files).length, 8)
+  end.writeUInt16LE(Object.keys(files).length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...locals, centralDirectory, end])
+}
+
+describe("extractArchive", () => {
+  let workDir: string
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "elm-sideload-archive-"))
+  })
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true })
+  })
+
+  it("should extract a tar.gz archive", async () => {
+    const packageDir = path.join(workDir, "package", "html-main")
+    fs.mkdirSync(path.join(packageDir, "src"), { recursive: true })
+    fs.writeFileSync(path.join(packageDir, "elm.json"), '{"type":"package"}')
+    fs.writeFileSync(path.join(packageDir, "src", "Html.elm"), "module Html exposing (..)")
+    execSync(`tar -czf ${path.join(workDir, "html.tar.gz")} -C ${path.join(workDir, "package")} html-main`)
+
+    const targetDir = path.join(workDir, "out")
+    await extractArchive(path.join(workDir, "html.tar.gz"), targetDir)
+
+    expect(fs.readFileSync(path.join(targetDir, "html-main", "elm.json"), "utf8")).toBe('{"type":"package"}')
+    expect(fs.readFileSync(path.join(targetDir, "html-main", "src", "Html.elm"), "utf8")).toBe(
+      "module Html exposing (..)"
+    )
+  })
+
+  it("should extract a zip archive", async () => {
+    fs.writeFileSync(
+      path.join(workDir, "html.zip"),
+      buildZip({ "html-main/elm.json": '{"type":"package"}', "html-main/src/Html.elm": "module Html exposing (..)" })
+    )
+
+    const targetDir = path.join(workDir, "out")
+    await extractArchive(path.join(workDir, "html.zip"), targetDir)
+
+    expect(fs.readFileSync(path.join(targetDir, "html-main", "src", "Html.elm"), "utf8")).toBe(
+      "module Html exposing (..)"
+    )
+  })
+
+  it("should refuse zip entries that would land outside the target directory", async () => {
+    fs.writeFileSync(path.join(workDir, "evil.zip"), buildZip({ "../escaped.txt": "nope" }))
+
+    await expect(extractArchive(path.join(workDir, "evil.zip"), path.join(workDir, "out"))).rejects.toThrow(
+      "invalid relative path"
+    )
+    expect(fs.existsSync(path.join(workDir, "escaped.txt"))).toBe(false)
+  })
+
+  it("should refuse tar entries that would land outside the target directory", async () => {
+    fs.mkdirSync(path.join(workDir, "source", "package"), { recursive: true })
+    fs.writeFileSync(path.join(workDir, "source", "escaped.txt"), "nope")
+    await tar.c(
+      { file: path.join(workDir, "evil.tar"), cwd: path.join(workDir, "source", "package"), preservePaths: true },
+      ["../escaped.txt"]
+    )
+
+    await expect(extractArchive(path.join(workDir, "evil.tar"), path.join(workDir, "out", "package"))).rejects.toThrow(
+      "path contains '..'"
+    )
+    expect(fs.existsSync(path.join(workDir, "out", "escaped.txt"))).toBe(false)
+  })
+
+  it("should reject files that are not archives", async () => {
+    fs.writeFileSync(path.join(workDir, "notes.txt"), "just some text")
+
+    await expect(extractArchive(path.join(workDir, "notes.txt"), path.join(workDir, "out"))).rejects.toThrow(
+      "is not a tar, tar.gz, or zip archive"
+    )
+  })
+})
@@ -0,0 +1,99 @@
+import * as fs from "fs"
+import { promises as fsAsync } from "fs"
+import * as path from "path"
+import { pipeline } from "stream/promises"
+import * as tar from "tar"
+import * as yauzl from "yauzl"
+
+// =============================================================================
+// Archive Extraction
+// =============================================================================
+
+const isGzip = (header: Buffer): boolean => header.length > 2 && header[0] === 0x1f && header[1] === 0x8b
+
+const isZip = (header: Buffer): boolean => header.length > 4 && header.readUInt32LE(0) === 0x04034b50
+
+const isTar = (header: Buffer): boolean => header.length >= 262 && header.toString("ascii", 257, 262) === "ustar"
+
+/**
+ * Extracts a `.tar`, `.tar.gz`/`.tgz`, or `.zip` archive into `targetDir`, detecting the format from its contents
+ * rather than its file extension. Symlinks and other special entries are skipped, and entries that would land outside
+ * `targetDir` are rejected.
+ */
+export async function extractArchive(archivePath: string, targetDir: string): Promise<void> {
+  const header = await readHeader(archivePath)
+  await fsAsync.mkdir(targetDir, { recursive: true })
+
+  if (isZip(header)) {
+    return extractZip(archivePath, targetDir)
+  }
+  if (isGzip(header) || isTar(header)) {
+    return extractTar(archivePath, targetDir)
+  }
+  throw new Error(`${archivePath} is not a tar, tar.gz, or zip archive`)
+}
+
+// One tar block is enough to tell the formats apart
+async function readHeader(archivePath: string): Promise<Buffer> {
+  const file = await fsAsync.open(archivePath, "r")
+  try {
+    const { buffer, bytesRead } = await file.read(Buffer.alloc(512), 0, 512, 0)
+    return buffer.subarray(0, bytesRead)
+  } finally {
+    await file.close()
+  }
+}
+
+const resolveInside = (targetDir: string, name: string): string => {
+  const target = path.resolve(targetDir, name)
+  if (target !== path.resolve(targetDir) && !target.startsWith(path.resolve(targetDir) + path.sep)) {
+    throw new Error(`Archive entry '${name}' would be extracted outside of ${targetDir}`)
+  }
+  return target
+}
+
+// =============================================================================
+// Tar
+// =============================================================================
+
+const extractedTarTypes = new Set(["File", "OldFile", "ContiguousFile", "Directory"])
+
+// tar refuses entries with '..' in their path on its own; with `strict`, that fails the extraction instead of only
+// skipping the entry with a warning
+function extractTar(archivePath: string, targetDir: string): Promise<void> {
+  return tar.x({
+    file: archivePath,
+    cwd: targetDir,
+    strict: true,
+    preserveOwner: false,
+    filter: (_entryPath, entry) => "type" in entry && extractedTarTypes.has(entry.type),
+  })
+}
+
+// =============================================================================
+// Zip
+// =============================================================================
+
+async function extractZip(archivePath: string, targetDir: string): Promise<void> {
+  // yauzl already refuses absolute paths and '..' in entry names; `resolveInside` makes sure of it again
+  const zip = await yauzl.openPromise(archivePath)
+
+  try {
+    for await (const entry of zip.eachEntry()) {
+      const target = resolveInside(targetDir, entry.fileName)
+      // Unix symlinks are stored with S_IFLNK in the upper half of the external attributes
+      const isSymlink = ((entry.externalFileAttributes >>> 16) & 0o170000) === 0o120000
+
+      if (entry.fileName.endsWith("/")) {
+        await fsAsync.mkdir(target, { recursive: true })
+      } else if (!isSymlink) {
+        await fsAsync.mkdir(path.dirname(target), { recursive: true })
+        await pipeline(await zip.openReadStreamPromise(entry), fs.createWriteStream(target))
+      }
+    }
+  } finally {
+    if (zip.isOpen) {
+      zip.close()
+    }
+  }
+}
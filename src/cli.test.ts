@@ -1,9 +1,10 @@
 import { describe, it, expect } from "vitest"
-import { parseArgs, createTestRuntime } from "./cli"
+import { PassThrough } from "stream"
+import { parseArgs, parseOutputFormat, createTestRuntime, createUserIO } from "./cli"
 import { Command, ConfigureCommand, InstallCommand, UserIOAdapter } from "./types"
 import { okAsync } from "neverthrow"
 
-const mockUserIO: UserIOAdapter = {
+const mockUserIO: Partial<UserIOAdapter> = {
   prompt: (message: string) => okAsync(""),
 }
 
@@ -78,6 +79,51 @@ describe("parseArgs", () => {
     }
   })
 
+  it("should parse configure command with a generic git remote", () => {
+    const result = parseArgs([
+      "configure",
+      "elm/html",
+      "--git",
+      "git@gitea.example.com:forks/html.git",
+      "--branch",
+      "safe",
+    ])
+
+    expect(result.isOk()).toBe(true)
+    if (result.isOk()) {
+      const command = result.value as ConfigureCommand
+      expect(command.source).toEqual({
+        type: "git",
+        url: "git@gitea.example.com:forks/html.git",
+        pinTo: { branch: "safe" },
+      })
+    }
+  })
+
+  it("should parse configure command with a subdirectory", () => {
+    const result = parseArgs([
+      "configure",
+      "elm/virtual-dom",
+      "--git",
+      "https://gitlab.com/forks/elm-packages",
+      "--sha",
+      "abc123",
+      "--subdir",
+      "packages/virtual-dom",
+    ])
+
+    expect(result.isOk()).toBe(true)
+    if (result.isOk()) {
+      const command = result.value as ConfigureCommand
+      expect(command.source).toEqual({
+        type: "git",
+        url: "https://gitlab.com/forks/elm-packages",
+        pinTo: { sha: "abc123" },
+        subdir: "packages/virtual-dom",
+      })
+    }
+  })
+
   it("should parse configure command with relative path", () => {
     const result = parseArgs(["configure", "elm/browser", "--relative", "../my-elm-browser"])
 
@@ -94,6 +140,84 @@ describe("parseArgs", () => {
     }
   })
 
+  it("should parse update command with and without a package", () => {
+    const all = parseArgs(["update"])
+    expect(all.isOk()).toBe(true)
+    if (all.isOk()) {
+      expect(all.value).toEqual({ type: "update", packageName: null })
+    }
+
+    const one = parseArgs(["update", "elm/virtual-dom"])
+    expect(one.isOk()).toBe(true)
+    if (one.isOk()) {
+      expect(one.value).toEqual({ type: "update", packageName: "elm/virtual-dom" })
+    }
+  })
+
+  it("should parse configure command with an archive", () => {
+    const result = parseArgs(["configure", "elm/html", "--archive", "./vendor/html.tar.gz"])
+
+    expect(result.isOk()).toBe(true)
+    if (result.isOk()) {
+      const command = result.value as ConfigureCommand
+      expect(command.source).toEqual({ type: "archive", path: "./vendor/html.tar.gz" })
+    }
+  })
+
+  it("should parse configure command with patches on top of the official package", () => {
+    const result = parseArgs(["configure", "elm/html", "--patch", "patches/one.patch", "--patch", "patches/two.diff"])
+
+    expect(result.isOk()).toBe(true)
+    if (result.isOk()) {
+      const command = result.value as ConfigureCommand
+      expect(command.source).toEqual({
+        type: "patches",
+        base: { type: "official" },
+        patches: ["patches/one.patch", "patches/two.diff"],
+      })
+    }
+  })
+
+  it("should parse configure command with patches on top of another source", () => {
+    const result = parseArgs(["configure", "elm/html", "--relative", "../html", "--patch", "patches/one.patch"])
+
+    expect(result.isOk()).toBe(true)
+    if (result.isOk()) {
+      const command = result.value as ConfigureCommand
+      expect(command.source).toEqual({
+        type: "patches",
+        base: { type: "relative", path: "../html" },
+        patches: ["patches/one.patch"],
+      })
+    }
+  })
+
+  it("should parse configure command with --allow-mismatch", () => {
+    const result = parseArgs(["configure", "elm/html", "--relative", "../html", "--allow-mismatch"])
+
+    expect(result.isOk()).toBe(true)
+    if (result.isOk()) {
+      expect((result.value as ConfigureCommand).allowMismatch).toBe(true)
+    }
+  })
+
+  it("should parse configure command with --link for relative sources only", () => {
+    const result = parseArgs(["configure", "elm/html", "--relative", "../html", "--link"])
+
+    expect((result._unsafeUnwrap() as ConfigureCommand).link).toBe(true)
+    expect(
+      parseArgs([
+        "configure",
+        "elm/html",
+        "--github",
+        "https://github.com/a/b",
+        "--sha",
+        "abc",
+        "--link",
+      ])._unsafeUnwrap().type
+    ).not.toBe("configure")
+  })
+
   it("should parse install command in interactive mode", () => {
     const result = parseArgs(["install"])
     expect(result.isOk()).toBe(true)
@@ -124,6 +248,32 @@ describe("parseArgs", () => {
     }
   })
 
+  it("should parse install command with --frozen flag", () => {
+    const result = parseArgs(["install", "--always", "--frozen"])
+    expect(result.isOk()).toBe(true)
+    if (result.isOk()) {
+      const command = result.value as InstallCommand
+      expect(command.mode).toBe("always")
+      expect(command.frozen).toBe(true)
+    }
+  })
+
+  it("should parse install command with --watch", () => {
+    expect(parseArgs(["install", "--always", "--watch"])._unsafeUnwrap()).toEqual({
+      type: "install",
+      mode: "always",
+      frozen: false,
+      watch: true,
+      link: false,
+      packages: [],
+    })
+    expect(parseArgs(["install", "--dry-run", "--watch"])._unsafeUnwrapErr()).toBe("invalidArguments")
+  })
+
+  it("should parse install command with --link", () => {
+    expect((parseArgs(["install", "--always", "--link"])._unsafeUnwrap() as InstallCommand).link).toBe(true)
+  })
+
   it("should parse unload command", () => {
     const result = parseArgs(["unload"])
     expect(result.isOk()).toBe(true)
@@ -131,6 +281,110 @@ describe("parseArgs", () => {
       expect(result.value.type).toBe("unload")
     }
   })
+
+  it("should parse status command", () => {
+    const result = parseArgs(["status"])
+    expect(result.isOk()).toBe(true)
+    if (result.isOk()) {
+      expect(result.value.type).toBe("status")
+    }
+  })
+
+  it("should parse verify command", () => {
+    const result = parseArgs(["verify"])
+    expect(result.isOk()).toBe(true)
+    if (result.isOk()) {
+      expect(result.value.type).toBe("verify")
+    }
+  })
+
+  it("should parse compat command", () => {
+    const result = parseArgs(["compat", "elm/html"])
+    expect(result.isOk()).toBe(true)
+    if (result.isOk()) {
+      expect(result.value).toEqual({ type: "compat", packageName: "elm/html" })
+    }
+  })
+
+  it("should parse package names and globs for install and unload", () => {
+    expect(
+      (parseArgs(["install", "--always", "elm/html", "elm/*"])._unsafeUnwrap() as InstallCommand).packages
+    ).toEqual(["elm/html", "elm/*"])
+    expect(parseArgs(["unload", "elm/virtual-dom"])._unsafeUnwrap()).toEqual({
+      type: "unload",
+      packages: ["elm/virtual-dom"],
+    })
+  })
+
+  it("should parse remove command", () => {
+    expect(parseArgs(["remove", "elm/html"])._unsafeUnwrap()).toEqual({
+      type: "remove",
+      packageName: "elm/html",
+      prune: false,
+    })
+    expect(parseArgs(["remove", "elm/html", "--prune"])._unsafeUnwrap()).toMatchObject({ prune: true })
+  })
+
+  it("should parse doctor command", () => {
+    expect(parseArgs(["doctor"])._unsafeUnwrap()).toEqual({ type: "doctor" })
+  })
+
+  it("should parse export command", () => {
+    expect(parseArgs(["export", "--format", "zokka"])._unsafeUnwrap()).toEqual({ type: "export", format: "zokka" })
+  })
+
+  it("should reject an unknown export format", () => {
+    expect(parseArgs(["export", "--format", "lamdera"])._unsafeUnwrapErr()).toBe("invalidArguments")
+  })
+
+  it("should accept --json before or after the command", () => {
+    expect(parseArgs(["--json", "status"])._unsafeUnwrap()).toEqual({ type: "status" })
+    expect(parseArgs(["install", "--always", "--json"])._unsafeUnwrap()).toEqual({
+      type: "install",
+      mode: "always",
+      frozen: false,
+      watch: false,
+      link: false,
+      packages: [],
+    })
+  })
+
+  it("should report usage errors instead of exiting when --json is passed", () => {
+    expect(parseArgs(["configure", "--json"])._unsafeUnwrapErr()).toBe("invalidArguments")
+  })
+})
+
+describe("parseOutputFormat", () => {
+  it("should choose JSON output only when --json is passed", () => {
+    expect(parseOutputFormat(["status", "--json"])).toBe("json")
+    expect(parseOutputFormat(["--json", "not-a-command"])).toBe("json")
+    expect(parseOutputFormat(["status"])).toBe("text")
+  })
+})
+
+describe("createUserIO", () => {
+  it("should read the answer to a prompt from stdin", async () => {
+    const input = new PassThrough()
+    const answer = createUserIO("json", input).prompt("Proceed? ")
+    input.write("y\n")
+
+    expect((await answer)._unsafeUnwrap()).toBe("y")
+  })
+
+  it("should fail to prompt when stdin is already closed", async () => {
+    const input = new PassThrough()
+    input.end()
+
+    expect((await createUserIO("json", input).prompt("Proceed? "))._unsafeUnwrapErr()).toBe("promptFailed")
+  })
+
+  it("should fail to prompt when stdin closes before an answer", async () => {
+    const input = new PassThrough()
+    const answer = createUserIO("json", input).prompt("Proceed? ")
+    input.end()
+
+    expect((await answer)._unsafeUnwrapErr()).toBe("promptFailed")
+  })
 })
 
 describe("createTestRuntime", () => {
@@ -151,7 +405,6 @@ describe("createTestRuntime", () => {
     const customElmHome = {
       type: "fromShellEnv" as const,
       elmHome: "/custom/elm",
-      packagesPath: "/custom/elm/0.19.1/packages",
     }
     const runtime = createTestRuntime(
       command,
@@ -1,11 +1,13 @@
 import { Command as CommanderCommand } from "commander"
-import { Result, ResultAsync, ok, err } from "neverthrow"
+import { Result, ResultAsync, ok, err, okAsync, errAsync } from "neverthrow"
 import * as os from "os"
 import * as path from "path"
 import * as fs from "fs"
 import { promises as fsAsync } from "fs"
 import * as readline from "readline"
-import { createGitIO } from "./gitIO"
+import { createHash } from "crypto"
+import { createGitIO, createUnavailableGitIO, GitIO } from "./gitIO"
+import { extractArchive } from "./archive"
 import {
   Command,
   Runtime,
@@ -16,10 +18,19 @@ import {
   HelpCommand,
   InitCommand,
   ConfigureCommand,
+  UpdateCommand,
   InstallCommand,
   UnloadCommand,
+  RemoveCommand,
+  StatusCommand,
+  VerifyCommand,
+  CompatCommand,
+  ExportCommand,
+  DoctorCommand,
   ConfigureInput,
+  BaseConfigureInput,
   UserIOAdapter,
+  OutputFormat,
 } from "./types"
 
 // =============================================================================
@@ -70,29 +81,225 @@ const realFileSystem: FileSystemAdapter = {
       () => "copyError" as const
     )
   },
-}
 
-// =============================================================================
-// Real User IO Adapter
-// =============================================================================
+  rename: (source: string, target: string) => {
+    return ResultAsync.fromPromise(fsAsync.rename(source, target), () => "writeError" as const)
+  },
+
+  symlink: (target: string, linkPath: string) => {
+    // Junctions link directories on Windows without needing administrator rights
+    const type = process.platform === "win32" ? "junction" : "dir"
+    return ResultAsync.fromPromise(fsAsync.symlink(target, linkPath, type), () => "writeError" as const)
+  },
+
+  isSymlink: (path: string) => {
+    return ResultAsync.fromPromise(
+      fsAsync.lstat(path).then((stats) => stats.isSymbolicLink()),
+      () => false
+    ).orElse(() => ResultAsync.fromSafePromise(Promise.resolve(false)))
+  },
 
-const realUserIO: UserIOAdapter = {
-  prompt: (message: string) => {
-    const rl = readline.createInterface({
-      input: process.stdin,
-      output: process.stdout,
+  readDirectory: (path: string) => {
+    return ResultAsync.fromPromise(fsAsync.readdir(path), (error: any) => {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return "directoryNotFound" as const
+      }
+      return "readError" as const
     })
+  },
 
+  listFilesRecursive: (root: string) => {
+    // Mirrors the filter in `copyDirectoryRecursive`, so that the listing matches what a copy would produce. Symlinked
+    // directories - the src folder of a linked sideload - are listed as if their files were there
+    const isDirectory = async (entry: fs.Dirent, relativePath: string): Promise<boolean> =>
+      entry.isDirectory() ||
+      (entry.isSymbolicLink() && (await fsAsync.stat(path.join(root, relativePath))).isDirectory())
+
+    const walk = async (relativeDir: string): Promise<string[]> => {
+      const entries = await fsAsync.readdir(path.join(root, relativeDir), { withFileTypes: true })
+      const nested = await Promise.all(
+        entries
+          .filter((entry) => !entry.name.startsWith(".git"))
+          .map(async (entry) => {
+            const relativePath = relativeDir === "" ? entry.name : `${relativeDir}/${entry.name}`
+            return (await isDirectory(entry, relativePath)) ? walk(relativePath) : [relativePath]
+          })
+      )
+      return nested.reduce<string[]>((acc, files) => [...acc, ...files], [])
+    }
+
+    return ResultAsync.fromPromise(walk(""), (error: any) => {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return "directoryNotFound" as const
+      }
+      return "readError" as const
+    })
+  },
+
+  hashFile: (path: string) => {
     return ResultAsync.fromPromise(
-      new Promise<string>((resolve) => {
-        rl.question(message, (answer) => {
-          rl.close()
-          resolve(answer)
-        })
-      }),
-      () => "promptFailed" as const
+      fsAsync.readFile(path).then((content) => createHash("sha256").update(content).digest("hex")),
+      (error: any) => {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return "fileNotFound" as const
+        }
+        return "readError" as const
+      }
+    )
+  },
+
+  modifiedTime: (path: string) => {
+    return ResultAsync.fromPromise(
+      fsAsync.stat(path).then((stats) => stats.mtimeMs),
+      (error: any) => {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return "fileNotFound" as const
+        }
+        return "readError" as const
+      }
     )
   },
+
+  watchDirectory: (dir: string, onChanges: (paths: string[]) => void, onError: (error: FileError) => void) => {
+    // A single save shows up as several events, so changes are collected until they settle and reported together.
+    // Like `copyDirectoryRecursive`, anything under .git is ignored
+    let changed = new Set<string>()
+    let timer: NodeJS.Timeout | null = null
+    // Keyed by the directory they watch, relative to `dir` and with "/" separators; "" is `dir` itself
+    const watchers = new Map<string, fs.FSWatcher>()
+    let stopped = false
+
+    const isIgnored = (relativePath: string) => relativePath.split("/").some((part) => part.startsWith(".git"))
+
+    const flush = () => {
+      const paths = [...changed].sort()
+      changed = new Set()
+      onChanges(paths)
+    }
+
+    const stop = () => {
+      stopped = true
+      if (timer) {
+        clearTimeout(timer)
+      }
+      watchers.forEach((watcher) => watcher.close())
+      watchers.clear()
+    }
+
+    const toWatchError = (error: any): FileError => {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return "directoryNotFound" as const
+      }
+      return "watchError" as const
+    }
+
+    // A watcher that breaks, e.g. when the system runs out of inotify watches, stops all of them
+    const fail = (error: unknown) => {
+      if (stopped) {
+        return
+      }
+      stop()
+      onError(toWatchError(error))
+    }
+
+    const watch = (relativeDir: string, recursive: boolean) => {
+      const watcher = fs.watch(path.join(dir, relativeDir), { recursive }, (_event, filename) => {
+        const relativePath = filename ? path.posix.join(relativeDir, filename.split(path.sep).join("/")) : null
+        if (relativePath === null || isIgnored(relativePath)) {
+          return
+        }
+        changed.add(relativePath)
+        if (timer) {
+          clearTimeout(timer)
+        }
+        timer = setTimeout(flush, 100)
+
+        // Without recursive watching, a directory created since watching started needs a watcher of its own
+        if (!recursive) {
+          fsAsync
+            .stat(path.join(dir, relativePath))
+            .then((stats) => (stats.isDirectory() ? watchTree(relativePath) : undefined))
+            .catch((error) => ((error as NodeJS.ErrnoException).code === "ENOENT" ? undefined : fail(error)))
+        }
+      })
+      watcher.on("error", fail)
+      watchers.set(relativeDir, watcher)
+    }
+
+    const watchTree = async (relativeDir: string): Promise<void> => {
+      if (stopped || isIgnored(relativeDir) || watchers.has(relativeDir)) {
+        return
+      }
+      watch(relativeDir, false)
+      const entries = await fsAsync.readdir(path.join(dir, relativeDir), { withFileTypes: true })
+      await Promise.all(
+        entries
+          .filter((entry) => entry.isDirectory())
+          .map((entry) => watchTree(path.posix.join(relativeDir, entry.name)))
+      )
+    }
+
+    // Recursive watching only came to Linux with Node 20; before that, every directory is watched on its own
+    const start = async (): Promise<void> => {
+      try {
+        watch("", true)
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ERR_FEATURE_UNAVAILABLE_ON_PLATFORM") {
+          throw error
+        }
+        await watchTree("")
+      }
+    }
+
+    return ResultAsync.fromPromise(start(), (error) => {
+      stop()
+      return toWatchError(error)
+    }).map(() => stop)
+  },
+
+  extractArchive: (archivePath: string, targetDir: string) => {
+    return ResultAsync.fromPromise(extractArchive(archivePath, targetDir), (error: any) => {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return "fileNotFound" as const
+      }
+      return "extractError" as const
+    })
+  },
+}
+
+// =============================================================================
+// Real User IO Adapter
+// =============================================================================
+
+export function createUserIO(outputFormat: OutputFormat, input: NodeJS.ReadableStream = process.stdin): UserIOAdapter {
+  // With --json, stdout is reserved for the JSON document, so everything meant for the person at the terminal goes to stderr
+  const output = outputFormat === "json" ? process.stderr : process.stdout
+
+  return {
+    prompt: (message: string) => {
+      const rl = readline.createInterface({ input, output })
+
+      return ResultAsync.fromPromise(
+        new Promise<string>((resolve, reject) => {
+          // Answers can be piped in, as with `yes | elm-sideload init`; but when stdin ends first, such as with
+          // `< /dev/null` or Ctrl-D, the question would otherwise be left pending forever
+          rl.once("close", () => reject(new Error("stdin was closed before the question was answered")))
+          rl.question(message, (answer) => {
+            resolve(answer)
+            rl.close()
+          })
+        }),
+        () => "promptFailed" as const
+      )
+    },
+
+    log: (message: string) => {
+      output.write(`${message}\n`)
+    },
+
+    untilInterrupted: () =>
+      ResultAsync.fromSafePromise(new Promise<void>((resolve) => process.once("SIGINT", resolve))),
+  }
 }
 
 // =============================================================================
@@ -117,16 +324,8 @@ function createEnvironment(): Environment {
   const envElmHome = process.env.ELM_HOME
 
   const elmHome = envElmHome
-    ? {
-        type: "fromShellEnv" as const,
-        elmHome: envElmHome,
-        packagesPath: path.join(envElmHome, "0.19.1", "packages"),
-      }
-    : {
-        type: "fromOsDefault" as const,
-        elmHome: getDefaultElmHome(),
-        packagesPath: path.join(getDefaultElmHome(), "0.19.1", "packages"),
-      }
+    ? { type: "fromShellEnv" as const, elmHome: envElmHome }
+    : { type: "fromOsDefault" as const, elmHome: getDefaultElmHome() }
 
   // Local environment variable store
   const envVars = new Map<string, string | undefined>()
@@ -146,15 +345,24 @@ function createEnvironment(): Environment {
 export function parseArgs(argv: string[]): Result<Command, RuntimeError> {
   const program = new CommanderCommand()
   let parsedCommand: Command | null = null
+  // Set by actions whose options commander parsed but that don't make sense together
+  let argumentsError: RuntimeError | null = null
 
   program
     .name("elm-sideload")
     .description("Sideload / override Elm packages from your elm.json")
     .version("1.0.0")
+    .option("--json", "Print a single JSON document with the result or error on stdout")
     .action(() => {
       parsedCommand = { type: "help" } as HelpCommand
     })
 
+  // Commander exits the process on usage errors, which would leave --json without a document on stdout; this makes it
+  // throw instead, so the error is reported like any other. Subcommands inherit the setting, so it must come first
+  if (parseOutputFormat(argv) === "json") {
+    program.exitOverride()
+  }
+
   // elm-sideload init
   program
     .command("init")
@@ -169,9 +377,20 @@ export function parseArgs(argv: string[]): Result<Command, RuntimeError> {
     .description("Configure a package sideload")
     .argument("<package>", "Package name (e.g., elm/html)")
     .option("--github <url>", "GitHub repository URL")
+    .option("--git <url>", "Any git remote: https, ssh, file://, or a local repository path")
     .option("--branch <branch>", "Git branch to pin to")
     .option("--sha <sha>", "Git SHA to pin to")
     .option("--relative <path>", "Relative directory path")
+    .option("--subdir <path>", "Package folder within the git repository, for monorepos")
+    .option("--archive <path>", "Relative path to a .tar.gz, .tar, or .zip archive of the package")
+    .option(
+      "--patch <file>",
+      "Relative path to a .patch/.diff file to apply; repeat to apply several in order",
+      (patch: string, patches: string[]) => [...patches, patch],
+      []
+    )
+    .option("--allow-mismatch", "Accept a source whose elm.json names a different package, version, or Elm version")
+    .option("--link", "With --relative, symlink the source's src folder into ELM_HOME instead of copying it")
     .action((packageName: string, options: any) => {
       const result = parseConfigureCommand(packageName, options)
       if (result.isOk()) {
@@ -179,29 +398,116 @@ export function parseArgs(argv: string[]): Result<Command, RuntimeError> {
       }
     })
 
+  // elm-sideload update [package]
+  program
+    .command("update")
+    .description("Re-resolve tracked branches to their latest SHAs")
+    .argument("[package]", "Package name (e.g., elm/html); defaults to every sideload that tracks a branch")
+    .action((packageName: string | undefined) => {
+      parsedCommand = { type: "update", packageName: packageName ?? null } as UpdateCommand
+    })
+
   // elm-sideload install [options]
   program
     .command("install")
     .description("Install sideloaded packages")
+    .argument("[packages...]", "Package names or globs like 'elm/*'; defaults to every sideload")
     .option("--always", "Apply without prompting")
     .option("--dry-run", "Show what would be done without doing it")
-    .action((options: any) => {
+    .option("--frozen", "Fail if the sources no longer match elm.sideload.lock.json")
+    .option("--watch", "Keep syncing relative sources into ELM_HOME as they change")
+    .option("--link", "Symlink the src folder of every relative source into ELM_HOME instead of copying it")
+    .action((packages: string[], options: any) => {
       const mode = options.always ? "always" : options.dryRun ? "dry-run" : "interactive"
 
-      parsedCommand = { type: "install", mode } as InstallCommand
+      // A dry run doesn't install anything to keep in sync
+      if (mode === "dry-run" && options.watch) {
+        argumentsError = "invalidArguments"
+        return
+      }
+
+      parsedCommand = {
+        type: "install",
+        mode,
+        frozen: Boolean(options.frozen),
+        watch: Boolean(options.watch),
+        link: Boolean(options.link),
+        packages,
+      } as InstallCommand
     })
 
   // elm-sideload unload
   program
     .command("unload")
     .description("Remove sideloaded packages")
+    .argument("[packages...]", "Package names or globs like 'elm/*'; defaults to every sideload")
+    .action((packages: string[]) => {
+      parsedCommand = { type: "unload", packages } as UnloadCommand
+    })
+
+  // elm-sideload remove <package> [options]
+  program
+    .command("remove")
+    .description("Remove a package's sideload from elm.sideload.json and restore the official package")
+    .argument("<package>", "Package name (e.g., elm/html)")
+    .option("--prune", "Also delete the cached clone, unless another sideload still uses it")
+    .action((packageName: string, options: any) => {
+      parsedCommand = { type: "remove", packageName, prune: Boolean(options.prune) } as RemoveCommand
+    })
+
+  // elm-sideload status
+  program
+    .command("status")
+    .description("Report which packages in ELM_HOME are currently sideloaded")
     .action(() => {
-      parsedCommand = { type: "unload" } as UnloadCommand
+      parsedCommand = { type: "status" } as StatusCommand
+    })
+
+  // elm-sideload verify
+  program
+    .command("verify")
+    .description("Check installed sideloads against their sources, file by file")
+    .action(() => {
+      parsedCommand = { type: "verify" } as VerifyCommand
+    })
+
+  // elm-sideload compat <package>
+  program
+    .command("compat")
+    .description("Compare a sideload's exposed API against the official package")
+    .argument("<package>", "Package name (e.g., elm/html)")
+    .action((packageName: string) => {
+      parsedCommand = { type: "compat", packageName } as CompatCommand
+    })
+
+  // elm-sideload doctor
+  program
+    .command("doctor")
+    .description("Check git, ELM_HOME, the configured packages and the caches for common problems")
+    .action(() => {
+      parsedCommand = { type: "doctor" } as DoctorCommand
+    })
+
+  // elm-sideload export --format <format>
+  program
+    .command("export")
+    .description("Translate elm.sideload.json for another tool")
+    .requiredOption("--format <format>", "What to export to: zokka")
+    .action((options: any) => {
+      if (options.format !== "zokka") {
+        argumentsError = "invalidArguments"
+        return
+      }
+      parsedCommand = { type: "export", format: options.format } as ExportCommand
     })
 
   try {
     program.parse(argv, { from: "user" })
 
+    if (argumentsError !== null) {
+      return err(argumentsError)
+    }
+
     // If no command was captured, show help
     if (parsedCommand === null) {
       return ok({ type: "help" } as HelpCommand)
@@ -213,31 +519,65 @@ export function parseArgs(argv: string[]): Result<Command, RuntimeError> {
   }
 }
 
+// --json is global, so it's read straight from argv: the output format is needed even when parsing the command fails
+export function parseOutputFormat(argv: string[]): OutputFormat {
+  return argv.includes("--json") ? "json" : "text"
+}
+
 function parseConfigureCommand(packageName: string, options: any): Result<ConfigureCommand, RuntimeError> {
-  let source: ConfigureInput
+  let base: BaseConfigureInput | null
+
+  if (options.github && options.git) {
+    return err("invalidArguments")
+  } else if (options.github || options.git) {
+    const type = options.github ? ("github" as const) : ("git" as const)
+    const url: string = options.github ?? options.git
 
-  if (options.github) {
     if (options.branch) {
-      source = {
-        type: "github",
-        url: options.github,
+      base = {
+        type,
+        url,
         pinTo: { branch: options.branch },
+        ...(options.subdir ? { subdir: options.subdir } : {}),
       }
     } else if (options.sha) {
-      source = {
-        type: "github",
-        url: options.github,
+      base = {
+        type,
+        url,
         pinTo: { sha: options.sha },
+        ...(options.subdir ? { subdir: options.subdir } : {}),
       }
     } else {
       return err("invalidArguments")
     }
+  } else if (options.subdir) {
+    // --subdir only makes sense for git sources; a relative source already points at the package folder
+    return err("invalidArguments")
   } else if (options.relative) {
-    source = {
+    base = {
       type: "relative",
       path: options.relative,
     }
+  } else if (options.archive) {
+    base = {
+      type: "archive",
+      path: options.archive,
+    }
   } else {
+    base = null
+  }
+
+  // With --patch, any other source flag chooses the base that the patches apply to; without one, it's the official package
+  const patches: string[] = options.patch ?? []
+  const source: ConfigureInput | null =
+    patches.length > 0 ? { type: "patches", base: base ?? { type: "official" }, patches } : base
+
+  if (source === null) {
+    return err("invalidArguments")
+  }
+
+  // Only a folder on disk can be linked to; everything else is copied out of the cache
+  if (options.link && source.type !== "relative") {
     return err("invalidArguments")
   }
 
@@ -245,6 +585,8 @@ function parseConfigureCommand(packageName: string, options: any): Result<Config
     type: "configure",
     packageName,
     source,
+    allowMismatch: options.allowMismatch === true,
+    link: options.link === true,
   })
 }
 
@@ -255,13 +597,18 @@ function parseConfigureCommand(packageName: string, options: any): Result<Config
 export function createRuntime(argv: string[]): ResultAsync<Runtime, RuntimeError> {
   return parseArgs(argv).asyncAndThen((command) =>
     createGitIO()
-      .mapErr(() => "gitNotAvailable" as const)
+      // Doctor is where a missing git gets reported, as one of its checks, so it runs without one
+      .orElse((message) =>
+        command.type === "doctor"
+          ? okAsync<GitIO, RuntimeError>(createUnavailableGitIO(message))
+          : errAsync<GitIO, RuntimeError>("gitNotAvailable")
+      )
       .map((gitIO) => ({
         command,
         environment: createEnvironment(),
         fileSystem: realFileSystem,
         gitIO,
-        userIO: realUserIO,
+        userIO: createUserIO(parseOutputFormat(argv)),
       }))
   )
 }
@@ -274,13 +621,12 @@ export function createTestRuntime(
   command: Command,
   environment: Partial<Environment> = {},
   fileSystem: Partial<FileSystemAdapter> = {},
-  userIO: UserIOAdapter
+  userIO: Partial<UserIOAdapter> = {}
 ): Runtime {
   const defaultEnvironment: Environment = {
     elmHome: {
       type: "fromOsDefault",
       elmHome: "/test/elm",
-      packagesPath: "/test/elm/0.19.1/packages",
     },
     cwd: "/test/project",
     hasElmJson: true,
@@ -289,30 +635,50 @@ export function createTestRuntime(
   }
 
   const defaultFileSystem: FileSystemAdapter = {
-    readFile: () => ResultAsync.fromSafePromise(Promise.reject("fileNotFound")).mapErr(() => "fileNotFound" as const),
+    readFile: () => ResultAsync.fromPromise(Promise.reject("fileNotFound"), () => "fileNotFound" as const),
     writeFile: () => ResultAsync.fromSafePromise(Promise.resolve(undefined)),
-    exists: () => ResultAsync.fromSafePromise(Promise.resolve(false)),
+    // Only the project's elm.json exists, and only if the environment says so
+    exists: (filePath: string) =>
+      ResultAsync.fromSafePromise(
+        Promise.resolve(defaultEnvironment.hasElmJson && filePath === path.join(defaultEnvironment.cwd, "elm.json"))
+      ),
     mkdir: () => ResultAsync.fromSafePromise(Promise.resolve(undefined)),
     deleteFile: () => ResultAsync.fromSafePromise(Promise.resolve(undefined)),
     deleteDir: () => ResultAsync.fromSafePromise(Promise.resolve(undefined)),
     copyDirectoryRecursive: () => ResultAsync.fromSafePromise(Promise.resolve(undefined)),
+    rename: () => ResultAsync.fromSafePromise(Promise.resolve(undefined)),
+    symlink: () => ResultAsync.fromSafePromise(Promise.resolve(undefined)),
+    isSymlink: () => ResultAsync.fromSafePromise(Promise.resolve(false)),
+    readDirectory: () => ResultAsync.fromSafePromise(Promise.resolve([])),
+    listFilesRecursive: () => ResultAsync.fromSafePromise(Promise.resolve([])),
+    hashFile: () => ResultAsync.fromSafePromise(Promise.resolve("")),
+    modifiedTime: () => ResultAsync.fromSafePromise(Promise.resolve(0)),
+    extractArchive: () => ResultAsync.fromSafePromise(Promise.resolve(undefined)),
+    watchDirectory: () => ResultAsync.fromSafePromise(Promise.resolve(() => {})),
     ...fileSystem,
   }
 
   // Mock GitIO for testing
   const mockGitIO = {
+    getVersion: () => ResultAsync.fromSafePromise(Promise.resolve("2.39.2")),
     clone: () => ResultAsync.fromSafePromise(Promise.resolve(undefined)),
     checkout: () => ResultAsync.fromSafePromise(Promise.resolve(undefined)),
     getCurrentSha: () => ResultAsync.fromSafePromise(Promise.resolve("abc123")),
     getRecentCommits: () => ResultAsync.fromSafePromise(Promise.resolve([])),
+    getCommitsBetween: () => ResultAsync.fromSafePromise(Promise.resolve([])),
     isClean: () => ResultAsync.fromSafePromise(Promise.resolve(true)),
     pull: () => ResultAsync.fromSafePromise(Promise.resolve(undefined)),
     resolveBranchToSha: () => ResultAsync.fromSafePromise(Promise.resolve("abc123")),
     shaExists: () => ResultAsync.fromSafePromise(Promise.resolve(true)),
+    applyPatch: () => ResultAsync.fromSafePromise(Promise.resolve(undefined)),
+    addWorktree: () => ResultAsync.fromSafePromise(Promise.resolve(undefined)),
   }
 
-  const mockUserIO: UserIOAdapter = userIO || {
-    prompt: (message: string) => (input: string) => ResultAsync.fromSafePromise(Promise.resolve(input)),
+  const mockUserIO: UserIOAdapter = {
+    prompt: () => ResultAsync.fromSafePromise(Promise.resolve("")),
+    log: () => {},
+    untilInterrupted: () => ResultAsync.fromSafePromise(Promise.resolve(undefined)),
+    ...userIO,
   }
 
   return {
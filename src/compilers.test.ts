@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest"
+import { detectCompiler, toPackagesPath, toStaleArtifactFiles } from "./compilers"
+
+describe("detectCompiler", () => {
+  it("should detect Zokka from its package overrides", () => {
+    expect(detectCompiler({ type: "application", "zokka-package-overrides": [] })).toBe("zokka")
+  })
+
+  it("should detect Lamdera from an indirect dependency on one of its packages", () => {
+    const elmJson = { dependencies: { direct: { "elm/core": "1.0.5" }, indirect: { "lamdera/codecs": "1.0.0" } } }
+    expect(detectCompiler(elmJson)).toBe("lamdera")
+  })
+
+  it("should fall back to elm for anything else", () => {
+    expect(detectCompiler({ dependencies: { direct: { "elm/core": "1.0.5" }, indirect: {} } })).toBe("elm")
+    expect(detectCompiler(null)).toBe("elm")
+  })
+})
+
+describe("compiler profiles", () => {
+  it("should keep Zokka's packages apart from elm's", () => {
+    expect(toPackagesPath("elm", "/home/.elm")).toBe("/home/.elm/0.19.1/packages")
+    expect(toPackagesPath("zokka", "/home/.elm")).toBe("/home/.elm/0.19.1/zokka/packages")
+  })
+
+  it("should invalidate the artifacts of every compiler that shares the packages directory", () => {
+    expect(toStaleArtifactFiles("elm")).toEqual(["artifacts.dat", "artifacts.x.dat"])
+    expect(toStaleArtifactFiles("lamdera")).toEqual(["artifacts.dat", "artifacts.x.dat"])
+    expect(toStaleArtifactFiles("zokka")).toEqual(["artifacts.dat"])
+  })
+})
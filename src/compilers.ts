@@ -0,0 +1,89 @@
+import * as path from "path"
+import { type Compiler } from "./types"
+
+// =============================================================================
+// Compiler Profile Types
+// =============================================================================
+
+export type CompilerProfile = {
+  // Where the compiler keeps downloaded packages, relative to ELM_HOME
+  packagesDir: string[]
+  // What the compiler writes into a package directory once it has built the package; stale as soon as the code changes
+  artifactFiles: string[]
+  // Where the compiler caches a project's build, relative to the directory that holds its elm.json
+  projectCacheDirs: string[][]
+}
+
+// =============================================================================
+// Profiles
+// =============================================================================
+
+export const compilerProfiles: Record<Compiler, CompilerProfile> = {
+  elm: {
+    packagesDir: ["0.19.1", "packages"],
+    artifactFiles: ["artifacts.dat"],
+    projectCacheDirs: [["elm-stuff", "0.19.1"]],
+  },
+  // Lamdera reads packages from the same directory as elm, and keeps its own artifacts next to elm's
+  lamdera: {
+    packagesDir: ["0.19.1", "packages"],
+    artifactFiles: ["artifacts.x.dat"],
+    projectCacheDirs: [["elm-stuff", "0.19.1"]],
+  },
+  // Zokka keeps its packages apart from elm's, since they can come from custom package repositories
+  zokka: {
+    packagesDir: ["0.19.1", "zokka", "packages"],
+    artifactFiles: ["artifacts.dat"],
+    projectCacheDirs: [["elm-stuff", "0.19.1"]],
+  },
+}
+
+export const compilers = Object.keys(compilerProfiles) as Compiler[]
+
+// Every compiler's artifacts, for directories that any of them may have built, like the backup of an official package
+export const knownArtifactFiles: string[] = [
+  ...new Set(compilers.flatMap((compiler) => compilerProfiles[compiler].artifactFiles)),
+]
+
+export function toPackagesPath(compiler: Compiler, elmHome: string): string {
+  return path.join(elmHome, ...compilerProfiles[compiler].packagesDir)
+}
+
+// A sideload installed into a package directory is seen by every compiler that reads from it, so the artifacts that
+// any of them wrote there are stale
+export function toStaleArtifactFiles(compiler: Compiler): string[] {
+  const { packagesDir } = compilerProfiles[compiler]
+  const sharing = compilers.filter((other) => compilerProfiles[other].packagesDir.join("/") === packagesDir.join("/"))
+  return [...new Set(sharing.flatMap((other) => compilerProfiles[other].artifactFiles))]
+}
+
+export function toProjectCachePaths(compiler: Compiler, projectDir: string): string[] {
+  return compilerProfiles[compiler].projectCacheDirs.map((cacheDir) => path.join(projectDir, ...cacheDir))
+}
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+/**
+ * Guesses which compiler a project is built with from its elm.json: Lamdera apps depend on Lamdera's own packages,
+ * and Zokka adds `zokka-package-overrides` to the elm.json of the projects that use it. Anything else is taken to be
+ * stock elm.
+ */
+export function detectCompiler(elmJson: unknown): Compiler {
+  if (!isRecord(elmJson)) {
+    return "elm"
+  }
+  if ("zokka-package-overrides" in elmJson) {
+    return "zokka"
+  }
+
+  const dependencies = isRecord(elmJson.dependencies) ? elmJson.dependencies : {}
+  const names = [dependencies.direct, dependencies.indirect].flatMap((group) =>
+    isRecord(group) ? Object.keys(group) : []
+  )
+  return names.some((name) => name.startsWith("lamdera/")) ? "lamdera" : "elm"
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
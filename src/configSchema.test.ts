@@ -0,0 +1,207 @@
+import { describe, it, expect } from "vitest"
+import { parseSideloadConfig, parseSideloadLock } from "./configSchema"
+
+const validConfig = {
+  version: 3,
+  elmJsonPaths: ["elm.json", "review/elm.json"],
+  compiler: "lamdera",
+  requireElmHome: false,
+  sideloads: [
+    {
+      originalPackageName: "elm/html",
+      originalPackageVersion: "1.0.0",
+      sideloadedPackage: {
+        type: "github",
+        url: "https://github.com/lydell/html",
+        pinTo: { sha: "abc123", branch: "safe" },
+      },
+    },
+    {
+      originalPackageName: "elm/virtual-dom",
+      originalPackageVersion: "1.0.4",
+      sideloadedPackage: {
+        type: "patches",
+        base: { type: "official" },
+        patches: ["patches/one.patch"],
+      },
+      allowMismatch: true,
+    },
+  ],
+}
+
+describe("parseSideloadConfig", () => {
+  it("should accept a valid config", () => {
+    expect(parseSideloadConfig(validConfig)._unsafeUnwrap()).toEqual(validConfig)
+  })
+
+  it("should migrate a config written before the version field existed", () => {
+    const { version, elmJsonPaths, ...rest } = validConfig
+    const { compiler, ...unversioned } = { elmJsonPath: "elm.json", ...rest }
+
+    expect(parseSideloadConfig(unversioned)._unsafeUnwrap()).toEqual({
+      ...validConfig,
+      elmJsonPaths: ["elm.json"],
+      compiler: "elm",
+    })
+  })
+
+  it("should migrate a version 1 config with a single elm.json to a list of them", () => {
+    const { version, elmJsonPaths, compiler, ...rest } = validConfig
+    const migrated = parseSideloadConfig({ version: 1, elmJsonPath: "app/elm.json", ...rest })._unsafeUnwrap()
+
+    expect(migrated).toEqual({ ...validConfig, elmJsonPaths: ["app/elm.json"], compiler: "elm" })
+    expect(Object.keys(migrated)).toEqual(["version", "elmJsonPaths", "compiler", "requireElmHome", "sideloads"])
+  })
+
+  it("should migrate a version 2 config to the elm compiler", () => {
+    const { compiler, ...rest } = validConfig
+
+    expect(parseSideloadConfig({ ...rest, version: 2 })._unsafeUnwrap()).toEqual({ ...validConfig, compiler: "elm" })
+  })
+
+  it("should report an unknown compiler", () => {
+    expect(parseSideloadConfig({ ...validConfig, compiler: "gren" })._unsafeUnwrapErr()).toEqual({
+      type: "invalidConfigSchema",
+      issues: [{ path: "$.compiler", expected: '"elm" or "lamdera" or "zokka"', found: '"gren"' }],
+    })
+  })
+
+  it("should report the path of a misspelled property", () => {
+    const { sideloadedPackage, ...rest } = validConfig.sideloads[0]
+    const config = { ...validConfig, sideloads: [{ ...rest, sideloadedPakage: sideloadedPackage }] }
+
+    expect(parseSideloadConfig(config)._unsafeUnwrapErr()).toEqual({
+      type: "invalidConfigSchema",
+      issues: [
+        { path: "$.sideloads[0].sideloadedPackage", expected: "an object", found: "nothing" },
+        {
+          path: "$.sideloads[0].sideloadedPakage",
+          expected:
+            "one of the known properties (originalPackageName, originalPackageVersion, sideloadedPackage, allowMismatch, link)",
+          found: "an unknown property",
+        },
+      ],
+    })
+  })
+
+  it("should report unknown source types and wrongly typed values", () => {
+    const config = {
+      ...validConfig,
+      requireElmHome: "yes",
+      sideloads: [
+        { ...validConfig.sideloads[0], sideloadedPackage: { type: "gitlab", url: "https://gitlab.com/a/b" } },
+        {
+          ...validConfig.sideloads[1],
+          sideloadedPackage: { type: "patches", base: { type: "official" }, patches: [1] },
+        },
+      ],
+    }
+
+    expect(parseSideloadConfig(config)._unsafeUnwrapErr()).toEqual({
+      type: "invalidConfigSchema",
+      issues: [
+        { path: "$.requireElmHome", expected: "true or false", found: '"yes"' },
+        {
+          path: "$.sideloads[0].sideloadedPackage.type",
+          expected: '"github" or "git" or "relative" or "archive" or "patches"',
+          found: '"gitlab"',
+        },
+        { path: "$.sideloads[1].sideloadedPackage.patches[0]", expected: "a string", found: "1" },
+      ],
+    })
+  })
+
+  it("should refuse a config from a newer version of elm-sideload", () => {
+    expect(parseSideloadConfig({ ...validConfig, version: 4 })._unsafeUnwrapErr()).toEqual({
+      type: "unsupportedConfigVersion",
+      version: 4,
+      latestVersion: 3,
+    })
+  })
+
+  it("should migrate an explicit version 0 like an unversioned config", () => {
+    const { version, elmJsonPaths, compiler, ...rest } = validConfig
+    const migrated = parseSideloadConfig({ version: 0, elmJsonPath: "elm.json", ...rest })._unsafeUnwrap()
+
+    expect(migrated).toEqual({ ...validConfig, elmJsonPaths: ["elm.json"], compiler: "elm" })
+  })
+
+  it("should refuse a null or negative version instead of migrating it forever", () => {
+    expect(parseSideloadConfig({ ...validConfig, version: null })._unsafeUnwrapErr()).toEqual({
+      type: "invalidConfigSchema",
+      issues: [{ path: "$.version", expected: "a whole number", found: "null" }],
+    })
+    expect(parseSideloadConfig({ ...validConfig, version: -1 })._unsafeUnwrapErr()).toEqual({
+      type: "invalidConfigSchema",
+      issues: [{ path: "$.version", expected: "a version from 1 to 3", found: "-1" }],
+    })
+  })
+
+  it("should refuse a subdir that reaches outside the repository", () => {
+    const withSubdir = (subdir: string) => ({
+      ...validConfig,
+      sideloads: [
+        { ...validConfig.sideloads[0], sideloadedPackage: { ...validConfig.sideloads[0].sideloadedPackage, subdir } },
+      ],
+    })
+
+    expect(parseSideloadConfig(withSubdir("packages/html")).isOk()).toBe(true)
+    for (const subdir of ["../outside", "packages/../../outside", "/etc", "C:\\outside"]) {
+      expect(parseSideloadConfig(withSubdir(subdir))._unsafeUnwrapErr()).toEqual({
+        type: "invalidConfigSchema",
+        issues: [
+          {
+            path: "$.sideloads[0].sideloadedPackage.subdir",
+            expected: "a folder inside the repository, without '..'",
+            found: JSON.stringify(subdir),
+          },
+        ],
+      })
+    }
+  })
+
+  it("should refuse a version that isn't a whole number", () => {
+    expect(parseSideloadConfig({ ...validConfig, version: "1" })._unsafeUnwrapErr()).toEqual({
+      type: "invalidConfigSchema",
+      issues: [{ path: "$.version", expected: "a whole number", found: '"1"' }],
+    })
+  })
+})
+
+describe("parseSideloadLock", () => {
+  const validLock = {
+    lockfileVersion: 1,
+    sideloads: [
+      {
+        originalPackageName: "elm/html",
+        originalPackageVersion: "1.0.0",
+        source: "../html",
+        resolvedCommit: null,
+        contentHash: "sha256-abc",
+      },
+    ],
+  }
+
+  it("should accept a lockfile as install writes it", () => {
+    expect(parseSideloadLock(validLock)._unsafeUnwrap()).toEqual(validLock)
+  })
+
+  it("should report every property that doesn't match", () => {
+    const edited = {
+      lockfileVersion: 1,
+      sideloads: [{ ...validLock.sideloads[0], resolvedCommit: 42, contentHash: undefined }],
+    }
+
+    expect(parseSideloadLock(edited)._unsafeUnwrapErr()).toEqual({
+      type: "invalidLockfileSchema",
+      issues: [
+        { path: "$.sideloads[0].resolvedCommit", expected: "a string", found: "42" },
+        { path: "$.sideloads[0].contentHash", expected: "a string", found: "nothing" },
+      ],
+    })
+    expect(parseSideloadLock([])._unsafeUnwrapErr()).toEqual({
+      type: "invalidLockfileSchema",
+      issues: [{ path: "$", expected: "an object", found: "an array" }],
+    })
+  })
+})
@@ -0,0 +1,243 @@
+import { Result, ok, err } from "neverthrow"
+import * as path from "path"
+import { type SideloadConfig, type SideloadLock } from "./types"
+import { compilers } from "./compilers"
+
+// =============================================================================
+// Config Schema Types
+// =============================================================================
+
+export const currentConfigVersion = 3
+
+// `path` is a JSONPath into elm.sideload.json, e.g. `$.sideloads[0].sideloadedPackage.pinTo.sha`
+export type SchemaIssue = { path: string; expected: string; found: string }
+
+export type Error =
+  | { type: "invalidConfigSchema"; issues: SchemaIssue[] }
+  | { type: "unsupportedConfigVersion"; version: number; latestVersion: number }
+  | { type: "invalidLockfileSchema"; issues: SchemaIssue[] }
+
+// =============================================================================
+// Migrations
+// =============================================================================
+
+type RawConfig = Record<string, unknown>
+
+// Each migration upgrades a config from the version it is keyed by to the next one. When the format changes, bump
+// `currentConfigVersion`, update the schema below, and add the migration from the previous version here.
+const migrations: Record<number, (config: RawConfig) => RawConfig> = {
+  // Configs written before the `version` field existed already have the version 1 shape
+  0: (config) => ({ ...config, version: 1 }),
+  // Version 1 configs point at a single elm.json
+  1: ({ version, elmJsonPath, ...config }) => ({ version: 2, elmJsonPaths: [elmJsonPath], ...config }),
+  // Version 2 configs were written when stock elm was the only compiler
+  2: ({ version, elmJsonPaths, ...config }) => ({ version: 3, elmJsonPaths, compiler: "elm", ...config }),
+}
+
+// Only a missing `version` means "written before the field existed"; null, or any other value that no version of
+// elm-sideload has written, is reported rather than migrated
+function migrate(config: RawConfig): Result<RawConfig, Error> {
+  const version = config.version === undefined ? 0 : config.version
+
+  if (typeof version !== "number" || !Number.isInteger(version)) {
+    return err({ type: "invalidConfigSchema", issues: issue("$.version", "a whole number", version) })
+  }
+  if (version > currentConfigVersion) {
+    return err({ type: "unsupportedConfigVersion", version, latestVersion: currentConfigVersion })
+  }
+  if (version !== currentConfigVersion && migrations[version] === undefined) {
+    return err({
+      type: "invalidConfigSchema",
+      issues: issue("$.version", `a version from 1 to ${currentConfigVersion}`, version),
+    })
+  }
+
+  return version === currentConfigVersion ? ok(config) : migrate(migrations[version](config))
+}
+
+// =============================================================================
+// Subdirectories
+// =============================================================================
+
+// Subdirectories are stored as forward-slashed paths relative to the repository root, so configs are portable. Install
+// joins them onto the checkout, so anything that could reach outside of it is refused
+export function normalizeSubdir(subdir: string): Result<string, "invalidSubdir"> {
+  const normalized = path.posix.normalize(subdir.replace(/\\/g, "/")).replace(/\/+$/, "")
+  return normalized === "" ||
+    normalized === "." ||
+    path.posix.isAbsolute(normalized) ||
+    /^[a-z]:/i.test(normalized) ||
+    normalized === ".." ||
+    normalized.startsWith("../")
+    ? err("invalidSubdir")
+    : ok(normalized)
+}
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+type Schema = (value: unknown, path: string) => SchemaIssue[]
+
+const describeValue = (value: unknown): string => {
+  if (value === undefined) return "nothing"
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "an array"
+  if (typeof value === "object") return "an object"
+  return JSON.stringify(value)
+}
+
+const issue = (path: string, expected: string, value: unknown): SchemaIssue[] => [
+  { path, expected, found: describeValue(value) },
+]
+
+const isRecord = (value: unknown): value is RawConfig =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const string: Schema = (value, path) => (typeof value === "string" ? [] : issue(path, "a string", value))
+
+const boolean: Schema = (value, path) => (typeof value === "boolean" ? [] : issue(path, "true or false", value))
+
+const literal =
+  (expected: string | number): Schema =>
+  (value, path) =>
+    value === expected ? [] : issue(path, JSON.stringify(expected), value)
+
+const oneOf =
+  (expected: readonly string[]): Schema =>
+  (value, path) =>
+    typeof value === "string" && expected.includes(value)
+      ? []
+      : issue(path, expected.map((e) => JSON.stringify(e)).join(" or "), value)
+
+const arrayOf =
+  (item: Schema): Schema =>
+  (value, path) =>
+    Array.isArray(value)
+      ? value.flatMap((element, i) => item(element, `${path}[${i}]`))
+      : issue(path, "an array", value)
+
+// Unknown properties are reported too, since a misspelled optional property would otherwise be silently ignored
+const object =
+  (required: Record<string, Schema>, optional: Record<string, Schema> = {}): Schema =>
+  (value, path) => {
+    if (!isRecord(value)) {
+      return issue(path, "an object", value)
+    }
+
+    const known = [...Object.keys(required), ...Object.keys(optional)]
+    return [
+      ...Object.entries(required).flatMap(([key, schema]) => schema(value[key], `${path}.${key}`)),
+      ...Object.entries(optional).flatMap(([key, schema]) =>
+        value[key] === undefined ? [] : schema(value[key], `${path}.${key}`)
+      ),
+      ...Object.keys(value)
+        .filter((key) => !known.includes(key))
+        .map((key) => ({
+          path: `${path}.${key}`,
+          expected: `one of the known properties (${known.join(", ")})`,
+          found: "an unknown property",
+        })),
+    ]
+  }
+
+const nullOr =
+  (schema: Schema): Schema =>
+  (value, path) =>
+    value === null ? [] : schema(value, path)
+
+// Objects that are told apart by their `type` property
+const tagged =
+  (variants: Record<string, Schema>): Schema =>
+  (value, path) => {
+    if (!isRecord(value)) {
+      return issue(path, "an object", value)
+    }
+
+    const schema = typeof value.type === "string" ? variants[value.type] : undefined
+    const expected = Object.keys(variants)
+      .map((tag) => JSON.stringify(tag))
+      .join(" or ")
+    return schema ? schema(value, path) : issue(`${path}.type`, expected, value.type)
+  }
+
+const subdir: Schema = (value, path) =>
+  typeof value !== "string"
+    ? issue(path, "a string", value)
+    : normalizeSubdir(value).isErr()
+      ? issue(path, "a folder inside the repository, without '..'", value)
+      : []
+
+const gitSource = object({ type: string, url: string, pinTo: object({ sha: string }, { branch: string }) }, { subdir })
+
+const baseSources: Record<string, Schema> = {
+  github: gitSource,
+  git: gitSource,
+  relative: object({ type: string, path: string }),
+  archive: object({ type: string, path: string, sha256: string }),
+}
+
+const sideloadSource = tagged({
+  ...baseSources,
+  patches: object({
+    type: string,
+    base: tagged({ official: object({ type: string }), ...baseSources }),
+    patches: arrayOf(string),
+  }),
+})
+
+const sideloadConfig = object({
+  version: literal(currentConfigVersion),
+  elmJsonPaths: arrayOf(string),
+  compiler: oneOf(compilers),
+  requireElmHome: boolean,
+  sideloads: arrayOf(
+    object(
+      { originalPackageName: string, originalPackageVersion: string, sideloadedPackage: sideloadSource },
+      { allowMismatch: boolean, link: boolean }
+    )
+  ),
+})
+
+// Only `install` writes the lockfile, so it has no versions to migrate between yet
+const sideloadLock = object({
+  lockfileVersion: literal(1),
+  sideloads: arrayOf(
+    object({
+      originalPackageName: string,
+      originalPackageVersion: string,
+      source: string,
+      resolvedCommit: nullOr(string),
+      contentHash: string,
+    })
+  ),
+})
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Checks the parsed contents of elm.sideload.json against the schema, after upgrading configs written by older
+ * versions of elm-sideload to the current format. The upgrade happens in memory; the file is rewritten in the new
+ * format the next time a command saves it.
+ */
+export function parseSideloadConfig(json: unknown): Result<SideloadConfig, Error> {
+  if (!isRecord(json)) {
+    return err({ type: "invalidConfigSchema", issues: issue("$", "an object", json) })
+  }
+
+  return migrate(json).andThen((config) => {
+    const issues = sideloadConfig(config, "$")
+    return issues.length === 0 ? ok(config as SideloadConfig) : err({ type: "invalidConfigSchema" as const, issues })
+  })
+}
+
+/**
+ * Checks the parsed contents of elm.sideload.lock.json against the shape that `install` writes, so that a hand-edited
+ * or truncated lockfile is reported instead of failing wherever its contents are first used.
+ */
+export function parseSideloadLock(json: unknown): Result<SideloadLock, Error> {
+  const issues = sideloadLock(json, "$")
+  return issues.length === 0 ? ok(json as SideloadLock) : err({ type: "invalidLockfileSchema", issues })
+}
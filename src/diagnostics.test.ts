@@ -0,0 +1,197 @@
+import { describe, it, expect } from "vitest"
+import { okAsync, errAsync } from "neverthrow"
+import { diagnose, formatDiagnostic } from "./diagnostics"
+import { createTestRuntime } from "./cli"
+import { Command, UserIOAdapter } from "./types"
+
+const mockUserIO: Partial<UserIOAdapter> = {
+  prompt: () => okAsync("n"),
+}
+
+const configureCommand: Command = {
+  type: "configure",
+  packageName: "elm/htlm",
+  source: { type: "relative", path: "../html" },
+  allowMismatch: false,
+  link: false,
+}
+
+describe("diagnose", () => {
+  it("should list the packages in elm.json when a package name is not found", async () => {
+    const runtime = createTestRuntime(
+      configureCommand,
+      {},
+      {
+        readFile: (path: string) =>
+          path === "/test/project/elm.json"
+            ? okAsync(
+                JSON.stringify({
+                  dependencies: {
+                    direct: { "elm/html": "1.0.0", "elm/core": "1.0.5" },
+                    indirect: { "elm/virtual-dom": "1.0.4" },
+                    "test-dependencies": { direct: {}, indirect: {} },
+                  },
+                })
+              )
+            : errAsync("fileNotFound" as const),
+      },
+      mockUserIO
+    )
+
+    const diagnostic = (await diagnose(runtime, "packageNotFoundInElmJson"))._unsafeUnwrap()
+
+    expect(diagnostic.title).toBe("elm/htlm is not a dependency in /test/project/elm.json")
+    expect(diagnostic.details).toEqual([
+      "elm.json depends on these packages:",
+      "  elm/core",
+      "  elm/html",
+      "  elm/virtual-dom",
+    ])
+  })
+
+  it("should list the elm.json files from elm.sideload.json when one of them is missing", async () => {
+    const runtime = createTestRuntime(
+      { type: "install", mode: "always", frozen: false, watch: false, link: false, packages: [] },
+      {},
+      {
+        readFile: (path: string) =>
+          path === "/test/project/elm.sideload.json"
+            ? okAsync(JSON.stringify({ version: 2, elmJsonPaths: ["app/elm.json", "review/elm.json"] }))
+            : errAsync("fileNotFound" as const),
+      },
+      mockUserIO
+    )
+
+    const diagnostic = (await diagnose(runtime, "noElmJsonFound"))._unsafeUnwrap()
+
+    expect(diagnostic.details).toEqual([
+      "elm.sideload.json lists:",
+      "  /test/project/app/elm.json",
+      "  /test/project/review/elm.json",
+    ])
+  })
+
+  it("should name the package and list recent commits when a pinned SHA is missing", async () => {
+    const runtime = createTestRuntime(
+      { type: "install", mode: "always", frozen: false, watch: false, link: false, packages: [] },
+      {},
+      {},
+      mockUserIO
+    )
+
+    const diagnostic = (
+      await diagnose(runtime, {
+        type: "sideloadFailed",
+        packageName: "elm/html",
+        version: "1.0.0",
+        error: { type: "shaNotFound", sha: "abc123", recentCommits: ["def456 Fix focus", "987fed Initial commit"] },
+      })
+    )._unsafeUnwrap()
+
+    expect(diagnostic.title).toBe("elm/html 1.0.0: Commit abc123 does not exist in the repository for elm/html")
+    expect(diagnostic.details).toEqual(["Most recent commits:", "  def456 Fix focus", "  987fed Initial commit"])
+    expect(diagnostic.hint).toContain("--sha")
+  })
+
+  it("should list the packages that a failed install rolled back", async () => {
+    const runtime = createTestRuntime(
+      { type: "install", mode: "always", frozen: false, watch: false, link: false, packages: [] },
+      {},
+      {},
+      mockUserIO
+    )
+
+    const diagnostic = (
+      await diagnose(runtime, {
+        type: "installRolledBack",
+        rolledBack: [{ packageName: "elm/html", version: "1.0.0" }],
+        error: {
+          type: "sideloadFailed",
+          packageName: "elm/virtual-dom",
+          version: "1.0.4",
+          error: { type: "packageCopyFailed", cause: "writeError" },
+        },
+      })
+    )._unsafeUnwrap()
+
+    expect(diagnostic.title).toBe(
+      "elm/virtual-dom 1.0.4: Could not copy elm/virtual-dom into /test/elm/0.19.1/packages"
+    )
+    expect(diagnostic.details).toEqual([
+      "Could not write a file for elm/virtual-dom",
+      "",
+      "ELM_HOME was left as it was before the install; these packages were rolled back:",
+      "  elm/html 1.0.0",
+    ])
+  })
+
+  it("should include git's own output", async () => {
+    const diagnostic = (
+      await diagnose(null, {
+        type: "cloneError",
+        url: "https://example.com/forks/html",
+        message: "Cloning into 'html'...\nfatal: unable to access 'https://example.com/forks/html/': 403",
+      })
+    )._unsafeUnwrap()
+
+    expect(diagnostic.details).toEqual([
+      "Cloning into 'html'...",
+      "fatal: unable to access 'https://example.com/forks/html/': 403",
+    ])
+  })
+
+  it("should list the configured packages when a name matches none of them", async () => {
+    const diagnostic = (
+      await diagnose(null, { type: "unknownPackages", patterns: ["elm/htlm"], configured: ["elm/html", "elm/url"] })
+    )._unsafeUnwrap()
+
+    expect(diagnostic.title).toBe("elm/htlm matches none of the sideloads in elm.sideload.json")
+    expect(diagnostic.details).toEqual(["elm.sideload.json has sideloads for:", "  elm/html", "  elm/url"])
+  })
+
+  it("should list every schema problem with its JSON path", async () => {
+    const runtime = createTestRuntime({ type: "status" }, {}, {}, mockUserIO)
+
+    const diagnostic = (
+      await diagnose(runtime, {
+        type: "invalidConfigSchema",
+        issues: [{ path: "$.sideloads[0].sideloadedPackage", expected: "an object", found: "nothing" }],
+      })
+    )._unsafeUnwrap()
+
+    expect(diagnostic.title).toBe("/test/project/elm.sideload.json does not match the expected format")
+    expect(diagnostic.details).toEqual(["$.sideloads[0].sideloadedPackage: expected an object, found nothing"])
+  })
+
+  it("should list the drifted packages, and leave out the ones that match their source", async () => {
+    const drift = { version: "1.0.0", missing: false, added: [], removed: [], modified: [] }
+
+    const diagnostic = (
+      await diagnose(null, {
+        type: "sideloadDrift",
+        drifts: [
+          { ...drift, packageName: "elm/html", added: ["src/Extra.elm"], modified: ["src/Html.elm"] },
+          { ...drift, packageName: "elm/url" },
+          { ...drift, packageName: "elm/json", missing: true },
+        ],
+      })
+    )._unsafeUnwrap()
+
+    expect(diagnostic.details).toEqual(["elm/html 1.0.0: 1 added, 0 removed, 1 modified", "elm/json 1.0.0 is missing"])
+  })
+
+  it("should diagnose errors that happen before there is a runtime", async () => {
+    const diagnostic = (await diagnose(null, "invalidArguments"))._unsafeUnwrap()
+
+    expect(diagnostic.title).toBe("The command line arguments are not valid")
+  })
+})
+
+describe("formatDiagnostic", () => {
+  it("should print the title, indented details, and the hint", () => {
+    expect(formatDiagnostic({ title: "Something broke", details: ["line one", "line two"], hint: "Fix it." })).toBe(
+      "Error: Something broke\n\n  line one\n  line two\n\nHint: Fix it."
+    )
+    expect(formatDiagnostic({ title: "Something broke", details: [], hint: null })).toBe("Error: Something broke")
+  })
+})
@@ -0,0 +1,560 @@
+import { ResultAsync, okAsync } from "neverthrow"
+import * as path from "path"
+import { Runtime, CommandError, Compiler } from "./types"
+import { compilers, toPackagesPath } from "./compilers"
+
+// =============================================================================
+// Diagnostic Types
+// =============================================================================
+
+export type Diagnostic = {
+  title: string
+  details: string[]
+  hint: string | null
+}
+
+// What a diagnostic can mention beyond the error itself; `runtime` is null when the error happened while creating it
+type Context = {
+  runtime: Runtime | null
+  packageName: string | null
+  compiler: Compiler
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  return [
+    `Error: ${diagnostic.title}`,
+    ...(diagnostic.details.length === 0 ? [] : ["", ...diagnostic.details.map((line) => `  ${line}`)]),
+    ...(diagnostic.hint === null ? [] : ["", `Hint: ${diagnostic.hint}`]),
+  ].join("\n")
+}
+
+// =============================================================================
+// Diagnosis
+// =============================================================================
+
+const diagnostic = (title: string, details: string[], hint: string | null): Diagnostic => ({ title, details, hint })
+
+const lines = (text: string): string[] => text.split("\n").filter((line) => line.trim() !== "")
+
+const cwdFile = (context: Context, file: string): string =>
+  context.runtime ? path.join(context.runtime.environment.cwd, file) : file
+
+const packagesPath = (context: Context): string =>
+  context.runtime
+    ? toPackagesPath(context.compiler, context.runtime.environment.elmHome.elmHome)
+    : "your ELM_HOME packages directory"
+
+const subject = (context: Context): string => context.packageName ?? "the sideload"
+
+const describePin = (pin: { resolvedCommit: string | null; contentHash: string }): string =>
+  `${pin.resolvedCommit ?? "(no commit)"} ${pin.contentHash}`
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+// Reading files for a diagnostic is best-effort: if they can't be read, the diagnostic goes without the extra detail
+const readJson = (context: Context, file: string): ResultAsync<unknown, never> =>
+  context.runtime
+    ? context.runtime.fileSystem
+        .readFile(cwdFile(context, file))
+        .map((content): unknown => {
+          try {
+            return JSON.parse(content)
+          } catch (_) {
+            return null
+          }
+        })
+        .orElse(() => okAsync(null))
+    : okAsync(null)
+
+// The elm.json files that elm.sideload.json lists, in either config format; null when there is no config to read
+const configuredElmJsonPaths = (context: Context): ResultAsync<string[] | null, never> =>
+  readJson(context, "elm.sideload.json").map((config) =>
+    !isRecord(config)
+      ? null
+      : Array.isArray(config.elmJsonPaths)
+        ? config.elmJsonPaths.filter((elmJsonPath): elmJsonPath is string => typeof elmJsonPath === "string")
+        : typeof config.elmJsonPath === "string"
+          ? [config.elmJsonPath]
+          : null
+  )
+
+const elmJsonPackages = (context: Context, elmJsonPaths: string[]): ResultAsync<string[], never> =>
+  ResultAsync.combine(elmJsonPaths.map((elmJsonPath) => readJson(context, elmJsonPath))).map((elmJsons) => {
+    const names = elmJsons.reduce<string[]>((acc, elmJson) => {
+      const dependencies = isRecord(elmJson) && isRecord(elmJson.dependencies) ? elmJson.dependencies : {}
+      const testDependencies = isRecord(dependencies["test-dependencies"]) ? dependencies["test-dependencies"] : {}
+      const groups = [dependencies.direct, dependencies.indirect, testDependencies.direct, testDependencies.indirect]
+      return groups.reduce<string[]>((names, group) => [...names, ...(isRecord(group) ? Object.keys(group) : [])], acc)
+    }, [])
+    return [...new Set(names)].sort()
+  })
+
+const configuredSideloads = (context: Context): ResultAsync<string[], never> =>
+  readJson(context, "elm.sideload.json").map((config) =>
+    isRecord(config) && Array.isArray(config.sideloads)
+      ? config.sideloads
+          .filter(isRecord)
+          .map((sideload) => `${sideload.originalPackageName} ${sideload.originalPackageVersion}`)
+      : []
+  )
+
+/**
+ * Turns any error into a titled message that names the file or package involved, carries git's own output where
+ * there is any, and suggests what to do next.
+ */
+export function diagnose(runtime: Runtime | null, error: CommandError): ResultAsync<Diagnostic, never> {
+  const command = runtime?.command
+  const packageName =
+    command &&
+    (command.type === "configure" ||
+      command.type === "compat" ||
+      command.type === "update" ||
+      command.type === "remove")
+      ? command.packageName
+      : null
+
+  const context: Context = { runtime, packageName, compiler: "elm" }
+
+  // Packages live where the configured compiler keeps them, so the diagnostic names the directory it would use
+  return readJson(context, "elm.sideload.json").andThen((config) => {
+    const compiler = isRecord(config) ? compilers.find((known) => known === config.compiler) : undefined
+    return diagnoseIn(compiler ? { ...context, compiler } : context, error)
+  })
+}
+
+function diagnoseIn(context: Context, error: CommandError): ResultAsync<Diagnostic, never> {
+  if (typeof error !== "string") {
+    switch (error.type) {
+      case "sideloadFailed":
+        return diagnoseIn({ ...context, packageName: error.packageName }, error.error).map((inner) => ({
+          ...inner,
+          title: `${error.packageName} ${error.version}: ${inner.title}`,
+        }))
+
+      case "installRolledBack":
+        return diagnoseIn(context, error.error).map((inner) => ({
+          ...inner,
+          details: [
+            ...inner.details,
+            ...(inner.details.length === 0 ? [] : [""]),
+            "ELM_HOME was left as it was before the install; these packages were rolled back:",
+            ...error.rolledBack.map(({ packageName, version }) => `  ${packageName} ${version}`),
+          ],
+        }))
+
+      // The failed file operation's own diagnostic explains the cause
+      case "packageCopyFailed":
+        return diagnoseIn(context, error.cause).map((cause) => ({
+          title: `Could not copy ${subject(context)} into ${packagesPath(context)}`,
+          details: [cause.title, ...cause.details],
+          hint: cause.hint ?? "Check that you can write to your ELM_HOME.",
+        }))
+
+      case "unloadFailed":
+        return diagnoseIn(context, error.cause).map((cause) => ({
+          title: `Could not unload ${subject(context)}`,
+          details: [cause.title, ...cause.details],
+          hint: cause.hint,
+        }))
+
+      default:
+        return okAsync(diagnoseStructured(context, error))
+    }
+  }
+
+  switch (error) {
+    case "packageNotFoundInElmJson":
+      return configuredElmJsonPaths(context)
+        .map((elmJsonPaths) => elmJsonPaths ?? ["elm.json"])
+        .andThen((elmJsonPaths) =>
+          elmJsonPackages(context, elmJsonPaths).map((packages) =>
+            diagnostic(
+              `${subject(context)} is not a dependency in ${elmJsonPaths.map((p) => cwdFile(context, p)).join(" or ")}`,
+              packages.length === 0
+                ? []
+                : [
+                    elmJsonPaths.length === 1
+                      ? "elm.json depends on these packages:"
+                      : "Together, these elm.json files depend on these packages:",
+                    ...packages.map((p) => `  ${p}`),
+                  ],
+              "Check the spelling of the package name, or add the package with 'elm install' first."
+            )
+          )
+        )
+
+    case "noElmJsonFound":
+      return configuredElmJsonPaths(context).map((elmJsonPaths) =>
+        elmJsonPaths === null
+          ? diagnostic(
+              `There is no elm.json in ${context.runtime ? context.runtime.environment.cwd : "the current directory"}`,
+              [],
+              "Run elm-sideload from the directory that holds your project's elm.json."
+            )
+          : diagnostic(
+              `Not every elm.json that ${cwdFile(context, "elm.sideload.json")} lists exists`,
+              ["elm.sideload.json lists:", ...elmJsonPaths.map((p) => `  ${cwdFile(context, p)}`)],
+              "Fix the paths in elmJsonPaths; they are relative to the directory that holds elm.sideload.json."
+            )
+      )
+
+    case "sideloadNotConfigured":
+    case "noTrackedBranch":
+      return configuredSideloads(context).map((sideloads) =>
+        diagnostic(
+          error === "sideloadNotConfigured"
+            ? `${subject(context)} has no sideload in ${cwdFile(context, "elm.sideload.json")}`
+            : `The sideload for ${subject(context)} is pinned to a SHA, not a branch, so there is nothing to update`,
+          sideloads.length === 0
+            ? ["elm.sideload.json has no sideloads yet"]
+            : ["elm.sideload.json has sideloads for:", ...sideloads.map((s) => `  ${s}`)],
+          error === "sideloadNotConfigured"
+            ? "Add one with 'elm-sideload configure <author/package> [flags]'."
+            : "Re-run 'elm-sideload configure' with --branch to track a branch instead."
+        )
+      )
+
+    default:
+      return okAsync(diagnoseCode(context, error))
+  }
+}
+
+function diagnoseStructured(
+  context: Context,
+  error: Exclude<
+    CommandError,
+    | string
+    | { type: "sideloadFailed" }
+    | { type: "installRolledBack" }
+    | { type: "packageCopyFailed" }
+    | { type: "unloadFailed" }
+  >
+): Diagnostic {
+  const cacheDir = cwdFile(context, ".elm.sideload.cache")
+
+  switch (error.type) {
+    case "repoNotFound":
+      return diagnostic(
+        `Could not find the git repository ${error.url}`,
+        lines(error.message),
+        "Check the URL, and that your git credentials give you access to the repository."
+      )
+    case "shaNotFound":
+      return diagnostic(
+        `Commit ${error.sha} does not exist in the repository for ${subject(context)}`,
+        error.recentCommits.length === 0 ? [] : ["Most recent commits:", ...error.recentCommits.map((c) => `  ${c}`)],
+        "Pin to one of the commits above with 'elm-sideload configure --sha', or make sure the commit has been pushed."
+      )
+    case "dirtyRepo":
+      return diagnostic(
+        `The cached repository for ${subject(context)} has uncommitted changes`,
+        lines(error.status),
+        `elm-sideload only installs committed code; delete the repository from ${cacheDir} to start from a fresh clone.`
+      )
+    case "networkError":
+      return diagnostic(
+        "A network error interrupted git",
+        lines(error.message),
+        "Check your connection, then try again."
+      )
+    case "cloneError":
+      return diagnostic(
+        `Could not clone ${error.url}`,
+        lines(error.message),
+        "Check the URL, and try cloning it yourself with 'git clone' to see whether it works outside elm-sideload."
+      )
+    case "checkoutError":
+      return diagnostic(
+        `Could not check out ${error.sha} for ${subject(context)}`,
+        lines(error.message),
+        `Delete the repository from ${cacheDir} so that it is cloned fresh, then try again.`
+      )
+    case "pullError":
+      return diagnostic(
+        `Could not fetch the latest changes for ${subject(context)}`,
+        lines(error.message),
+        "Check your connection and that the remote still exists."
+      )
+    case "commandError":
+      return diagnostic(`git failed while running '${error.command}'`, lines(error.message), null)
+    case "patchFailed":
+      return diagnostic(
+        `The patch ${context.runtime ? path.relative(context.runtime.environment.cwd, error.patch) : error.patch} no longer applies`,
+        [...(error.hunk ? [`First hunk that doesn't apply: ${error.hunk}`] : []), ...lines(error.message)],
+        "Regenerate the patch against the current base, or run 'elm-sideload configure <author/package>' again with only the --patch flags that still apply."
+      )
+    case "invalidRemoteUrl":
+      return diagnostic(
+        `Could not understand the git URL '${error.url}'`,
+        [error.reason],
+        "Use an https URL, an ssh URL like 'git@example.com:owner/repo.git', a 'file://' URL, or a local path."
+      )
+    case "invalidConfigSchema":
+      return diagnostic(
+        `${cwdFile(context, "elm.sideload.json")} does not match the expected format`,
+        error.issues.map((issue) => `${issue.path}: expected ${issue.expected}, found ${issue.found}`),
+        "Fix the properties listed above, or remove the sideload and add it again with 'elm-sideload configure'."
+      )
+    case "invalidLockfileSchema":
+      return diagnostic(
+        `${cwdFile(context, "elm.sideload.lock.json")} does not match the expected format`,
+        error.issues.map((issue) => `${issue.path}: expected ${issue.expected}, found ${issue.found}`),
+        "Restore it from version control, or delete it and run 'elm-sideload install' to create it again."
+      )
+    case "unsupportedConfigVersion":
+      return diagnostic(
+        `${cwdFile(context, "elm.sideload.json")} is format version ${error.version}, but this elm-sideload only understands up to version ${error.latestVersion}`,
+        [],
+        "Upgrade elm-sideload to the version that your project uses."
+      )
+    case "unknownPackages":
+      return diagnostic(
+        `${error.patterns.join(", ")} ${error.patterns.length === 1 ? "matches" : "match"} none of the sideloads in ${cwdFile(context, "elm.sideload.json")}`,
+        error.configured.length === 0
+          ? ["elm.sideload.json has no sideloads yet"]
+          : ["elm.sideload.json has sideloads for:", ...error.configured.map((p) => `  ${p}`)],
+        "Check the spelling of the package names; quote globs like 'elm/*' so that your shell leaves them alone."
+      )
+    case "lockfileMismatch":
+      return diagnostic(
+        `The sources of ${error.mismatches.map((m) => `${m.packageName} ${m.version}`).join(", ")} no longer match ${cwdFile(context, "elm.sideload.lock.json")}`,
+        error.mismatches.flatMap((mismatch) =>
+          mismatch.locked === null
+            ? [`${mismatch.packageName} ${mismatch.version} has no entry in the lockfile`]
+            : [
+                `${mismatch.packageName} ${mismatch.version}:`,
+                `  locked:   ${describePin(mismatch.locked)}`,
+                `  resolved: ${describePin(mismatch.resolved)}`,
+              ]
+        ),
+        "If the change is expected, run 'elm-sideload install' without --frozen to update the lockfile, and commit it."
+      )
+    case "sideloadDrift":
+      return diagnostic(
+        `The sideloaded packages in ${packagesPath(context)} have drifted from their sources`,
+        error.drifts.flatMap(({ packageName, version, missing, added, removed, modified }) =>
+          missing
+            ? [`${packageName} ${version} is missing`]
+            : added.length + removed.length + modified.length > 0
+              ? [
+                  `${packageName} ${version}: ${added.length} added, ${removed.length} removed, ${modified.length} modified`,
+                ]
+              : []
+        ),
+        "Run 'elm-sideload install' to copy the sources in again."
+      )
+    case "apiIncompatible":
+      return diagnostic(
+        `The sideload for ${subject(context)} removes or changes API that the official package exposes`,
+        [
+          ...error.compatibility.removedModules.map((moduleName) => `Removed module: ${moduleName}`),
+          ...error.compatibility.changedModules.flatMap((changes) => [
+            ...changes.removed.map((name) => `Removed: ${changes.moduleName}.${name}`),
+            ...changes.changed.map((name) => `Changed: ${changes.moduleName}.${name}`),
+          ]),
+        ],
+        "Packages that use the removed or changed API may no longer compile."
+      )
+    case "doctorFoundProblems":
+      return diagnostic(
+        "elm-sideload doctor found problems with this environment",
+        [
+          `Failed checks: ${error.checks
+            .filter((check) => check.status === "fail")
+            .map((check) => check.name)
+            .join(", ")}`,
+        ],
+        "Follow the hints of the failed checks above, then run 'elm-sideload doctor' again."
+      )
+  }
+}
+
+function diagnoseCode(
+  context: Context,
+  error: Exclude<
+    CommandError,
+    object | "packageNotFoundInElmJson" | "noElmJsonFound" | "sideloadNotConfigured" | "noTrackedBranch"
+  >
+): Diagnostic {
+  const sideloadConfig = cwdFile(context, "elm.sideload.json")
+  const lockfile = cwdFile(context, "elm.sideload.lock.json")
+  const cacheDir = cwdFile(context, ".elm.sideload.cache")
+
+  switch (error) {
+    // File errors
+    case "fileNotFound":
+      return diagnostic(`A file needed for ${subject(context)} does not exist`, [], null)
+    case "readError":
+      return diagnostic(`A file needed for ${subject(context)} could not be read`, [], "Check its permissions.")
+    case "writeError":
+      return diagnostic(
+        `Could not write a file for ${subject(context)}`,
+        [],
+        `Check that you can write to the project directory and to ${packagesPath(context)}.`
+      )
+    case "permissionDenied":
+      return diagnostic(
+        `Permission denied while working on ${subject(context)}`,
+        [],
+        `Check the permissions of the project directory and of ${packagesPath(context)}.`
+      )
+    case "directoryNotFound":
+      return diagnostic(`A directory needed for ${subject(context)} does not exist`, [], null)
+    case "copyError":
+      return diagnostic(
+        `Could not copy the files for ${subject(context)}`,
+        [],
+        `Check that you can write to ${packagesPath(context)}.`
+      )
+    case "extractError":
+      return diagnostic(
+        `Could not extract the archive for ${subject(context)}`,
+        [],
+        "Check that the archive is a complete .tar.gz, .tar, or .zip file."
+      )
+    case "watchError":
+      return diagnostic(
+        `Could not watch the source of ${subject(context)} for changes`,
+        [],
+        "On Linux, the system may be out of file watches: raise fs.inotify.max_user_watches, or close other programs " +
+          "that watch many files."
+      )
+
+    // Validation errors
+    case "invalidGithubUrl":
+      return diagnostic(
+        "--github only accepts github.com repositories",
+        [],
+        "Use --git for repositories hosted anywhere else."
+      )
+    case "invalidRelativePath":
+      return diagnostic(`The relative path for ${subject(context)} is not valid`, [], null)
+    case "sideloadConfigNotFound":
+      return diagnostic(`${sideloadConfig} does not exist`, [], "Create it with 'elm-sideload init'.")
+    case "invalidSideloadConfig":
+      return diagnostic(
+        `${sideloadConfig} is not valid JSON`,
+        [],
+        "Fix the syntax error, or restore the file from version control."
+      )
+    case "couldNotReadElmJson":
+      return diagnostic(
+        `One of the elm.json files that ${sideloadConfig} lists is not valid JSON`,
+        [],
+        "Fix the syntax error; 'elm make' will point at it too."
+      )
+    case "gitCloneFailed":
+      return diagnostic(`Could not clone the repository for ${subject(context)}`, [], null)
+    case "invalidPackageName":
+      return diagnostic(
+        `'${subject(context)}' is not a package name`,
+        [],
+        "Package names look like 'author/package', e.g. 'elm/html'."
+      )
+    case "elmHomePathNotFound":
+      return diagnostic(
+        `${packagesPath(context)} does not exist`,
+        [],
+        "Build your project with 'elm make' once, so that the compiler downloads its packages."
+      )
+    case "lockfileNotFound":
+      return diagnostic(
+        `${lockfile} does not exist`,
+        [],
+        "Run 'elm-sideload install' without --frozen to create it, and commit it."
+      )
+    case "invalidLockfile":
+      return diagnostic(
+        `${lockfile} is not valid JSON`,
+        [],
+        "Restore it from version control, or delete it and run 'elm-sideload install' to create it again."
+      )
+    case "invalidSubdir":
+      return diagnostic(
+        "--subdir must be a relative path inside the repository",
+        [],
+        "Use a path like 'packages/virtual-dom', without '..' or a leading '/'."
+      )
+    case "noElmJsonInSubdir":
+      return diagnostic(
+        `The subdirectory for ${subject(context)} has no elm.json at the pinned commit`,
+        [],
+        "Check the --subdir path against the repository at that commit."
+      )
+    case "archiveChecksumMismatch":
+      return diagnostic(
+        `The archive for ${subject(context)} has changed since it was configured`,
+        [],
+        "If the new archive is expected, run 'elm-sideload configure' again to record its checksum."
+      )
+    case "patchNotFound":
+      return diagnostic(
+        `A patch file for ${subject(context)} does not exist`,
+        [],
+        "Patch paths are relative to the directory that holds elm.sideload.json."
+      )
+    case "noPristineOfficialPackage":
+      return diagnostic(
+        `There is no untouched copy of the official ${subject(context)} in ${packagesPath(context)}`,
+        [],
+        "Run 'elm-sideload unload' and build once with 'elm make' so that the compiler downloads the official package."
+      )
+    case "notAnElmPackage":
+      return diagnostic(
+        `The source for ${subject(context)} is not an Elm package`,
+        [],
+        "Point the sideload at the folder that holds the package's elm.json; use --subdir for monorepos."
+      )
+    case "sideloadPackageMismatch":
+      return diagnostic(
+        `The source for ${subject(context)} describes a different package`,
+        [],
+        "Check that the source is the right package, or re-run 'elm-sideload configure' with --allow-mismatch."
+      )
+    case "invalidZokkaOverrides":
+      return diagnostic(
+        "An elm.json has a 'zokka-package-overrides' that is not a list of package overrides",
+        [],
+        "Each override needs 'original-package-name', 'original-package-version', 'override-package-name' and " +
+          "'override-package-version'; fix or remove the ones that don't, then export again."
+      )
+    case "noRelativeSideloads":
+      return diagnostic(
+        `${sideloadConfig} has no sideloads with a relative source to watch or link`,
+        [],
+        "--watch and --link only apply to sideloads configured with --relative; other sources are always copied by install."
+      )
+
+    // Runtime errors
+    case "noElmHome":
+      return diagnostic(
+        "ELM_HOME is not set",
+        [],
+        `${sideloadConfig} requires ELM_HOME; set it, or change "requireElmHome" to false.`
+      )
+    case "couldNotCreateRuntime":
+      return diagnostic("elm-sideload could not start", [], null)
+    case "invalidArguments":
+      return diagnostic(
+        "The command line arguments are not valid",
+        [],
+        "Run 'elm-sideload' without arguments to see every command and its flags."
+      )
+    case "gitNotAvailable":
+      return diagnostic("Could not find the git executable", [], "Install git and make sure it's on your PATH.")
+
+    // User IO errors
+    case "promptFailed":
+      return diagnostic(
+        "Could not read an answer from the terminal",
+        [],
+        "Use 'elm-sideload install --always' when running without a terminal, such as in CI, or pipe the answers " +
+          "in, like 'yes | elm-sideload init'."
+      )
+  }
+}
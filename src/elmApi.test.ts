@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest"
+import { parseModuleApi, diffModuleApis, flattenExposedModules } from "./elmApi"
+
+const htmlModule = `
+module Html exposing
+    ( Html, Attribute, text, node
+    , div, (|>)
+    , Maybe2(..)
+    )
+
+{-| Docs with \`code\` and a nested {- comment -} inside.
+-}
+
+import VirtualDom
+
+
+type alias Html msg =
+    VirtualDom.Node msg
+
+
+type Attribute msg
+    = Attribute (VirtualDom.Attribute msg)
+
+
+type Maybe2 a
+    = Just2 a
+    | Nothing2
+
+
+{-| -}
+text : String -> Html msg
+text =
+    VirtualDom.text
+
+
+-- a line comment that mentions div : Int
+node :
+    String
+    -> List (Attribute msg)
+    -> List (Html msg)
+    -> Html msg
+node tag =
+    VirtualDom.node tag
+
+
+div : List (Attribute msg) -> List (Html msg) -> Html msg
+div =
+    node "div"
+
+
+separator =
+    "--{-"
+
+
+hidden : Int
+hidden =
+    1
+
+
+infix left 0 (|>) = apR
+`
+
+describe("parseModuleApi", () => {
+  it("should read the exposing list and the signatures of what it exposes", () => {
+    const api = parseModuleApi(htmlModule)!
+
+    expect([...api.keys()].sort()).toEqual(["(|>)", "Attribute", "Html", "Maybe2", "div", "node", "text"])
+    expect(api.get("text")).toBe("text : String -> Html msg")
+    expect(api.get("node")).toBe("node : String -> List (Attribute msg) -> List (Html msg) -> Html msg")
+    expect(api.get("Html")).toBe("type alias Html msg = VirtualDom.Node msg")
+    expect(api.get("(|>)")).toBe("infix left 0 (|>) = apR")
+  })
+
+  it("should describe types exposed without constructors by their name and type variables only", () => {
+    const api = parseModuleApi(htmlModule)!
+
+    expect(api.get("Attribute")).toBe("type Attribute msg")
+    expect(api.get("Maybe2")).toBe("type Maybe2 a = Just2 a | Nothing2")
+  })
+
+  it("should expose every top-level declaration for exposing (..)", () => {
+    const api = parseModuleApi(
+      "port module Main exposing (..)\n\nport send : String -> Cmd msg\n\nhelper x =\n    x\n"
+    )!
+
+    expect(api.get("send")).toBe("send : String -> Cmd msg")
+    expect(api.get("helper")).toBe("")
+  })
+
+  it("should return null when there is no module header", () => {
+    expect(parseModuleApi('main = text "hello"')).toBeNull()
+  })
+})
+
+describe("diffModuleApis", () => {
+  it("should report removed, added, and changed declarations", () => {
+    const before = new Map([
+      ["text", "text : String -> Html msg"],
+      ["Attribute", "type Attribute msg"],
+      ["div", "div : List (Attribute msg) -> List (Html msg) -> Html msg"],
+    ])
+    const after = new Map([
+      ["text", "text : String -> Html msg"],
+      ["Attribute", "type Attribute msg = Attribute String"],
+      ["span", "span : List (Attribute msg) -> List (Html msg) -> Html msg"],
+    ])
+
+    expect(diffModuleApis(before, after)).toEqual({ removed: ["div"], added: ["span"], changed: ["Attribute"] })
+  })
+})
+
+describe("flattenExposedModules", () => {
+  it("should accept both the flat and the grouped forms of exposed-modules", () => {
+    expect(flattenExposedModules(["Html", "Html.Attributes"])).toEqual(["Html", "Html.Attributes"])
+    expect(flattenExposedModules({ Html: ["Html"], Attributes: ["Html.Attributes", "Html.Events"] })).toEqual([
+      "Html",
+      "Html.Attributes",
+      "Html.Events",
+    ])
+  })
+})
@@ -0,0 +1,231 @@
+// =============================================================================
+// Elm API Types
+// =============================================================================
+
+// Exposed declarations of a module, keyed by name (operators keep their parentheses), each with a normalized signature:
+// the type annotation of a value, the full definition of a type or type alias, or just the name and type variables
+// of a type that is exposed without its constructors
+export type ModuleApi = Map<string, string>
+
+export type ApiDiff = {
+  removed: string[]
+  added: string[]
+  changed: string[]
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+// Replaces comments with whitespace, so that offsets and line starts are kept; string and char literals are skipped
+// over, so that `--` or `{-` inside them doesn't start a comment
+function stripComments(source: string): string {
+  let result = ""
+  let i = 0
+  let depth = 0
+
+  const blank = (text: string): string => text.replace(/[^\n]/g, " ")
+
+  while (i < source.length) {
+    if (depth > 0) {
+      if (source.startsWith("{-", i)) {
+        depth++
+        result += "  "
+        i += 2
+      } else if (source.startsWith("-}", i)) {
+        depth--
+        result += "  "
+        i += 2
+      } else {
+        result += blank(source[i])
+        i++
+      }
+    } else if (source.startsWith("{-", i)) {
+      depth++
+      result += "  "
+      i += 2
+    } else if (source.startsWith("--", i)) {
+      const end = source.indexOf("\n", i)
+      const stop = end === -1 ? source.length : end
+      result += blank(source.slice(i, stop))
+      i = stop
+    } else if (source[i] === '"' || source[i] === "'") {
+      const delimiter = source.startsWith('"""', i) ? '"""' : source[i]
+      let j = i + delimiter.length
+      while (j < source.length && !source.startsWith(delimiter, j)) {
+        j += source[j] === "\\" ? 2 : 1
+      }
+      const stop = Math.min(source.length, j + delimiter.length)
+      result += source.slice(i, stop)
+      i = stop
+    } else {
+      result += source[i]
+      i++
+    }
+  }
+
+  return result
+}
+
+// Splits on commas that aren't nested inside parentheses
+function splitTopLevel(list: string): string[] {
+  const items: string[] = []
+  let depth = 0
+  let current = ""
+
+  for (const char of list) {
+    if (char === "(") depth++
+    if (char === ")") depth--
+    if (char === "," && depth === 0) {
+      items.push(current.trim())
+      current = ""
+    } else {
+      current += char
+    }
+  }
+
+  return current.trim() === "" ? items : [...items, current.trim()]
+}
+
+// The text between the parentheses that start at `open`, or null if they are never closed
+function balancedParens(source: string, open: number): string | null {
+  let depth = 0
+  for (let i = open; i < source.length; i++) {
+    if (source[i] === "(") depth++
+    if (source[i] === ")") depth--
+    if (depth === 0) {
+      return source.slice(open + 1, i)
+    }
+  }
+  return null
+}
+
+const normalize = (text: string): string => text.replace(/\s+/g, " ").trim()
+
+type Declaration =
+  | { kind: "value"; name: string; signature: string }
+  | { kind: "type"; name: string; full: string; opaque: string }
+
+// Top-level declarations start in the first column; everything indented below them belongs to them
+function parseDeclarations(source: string): Map<string, Declaration> {
+  const chunks = source
+    .split("\n")
+    .reduce<string[]>((acc, line) => {
+      if (/^\S/.test(line)) {
+        return [...acc, line]
+      }
+      return acc.length === 0 ? acc : [...acc.slice(0, -1), `${acc[acc.length - 1]}\n${line}`]
+    }, [])
+    .map(normalize)
+
+  const declarations = new Map<string, Declaration>()
+  const annotations = new Map<string, string>()
+
+  chunks.forEach((chunk) => {
+    const typeMatch = chunk.match(/^type\s+(alias\s+)?([A-Z]\w*)([^=]*)/)
+    if (typeMatch) {
+      const [, alias, name, variables] = typeMatch
+      declarations.set(name, {
+        kind: "type",
+        name,
+        full: chunk,
+        opaque: alias ? chunk : normalize(`type ${name} ${variables}`),
+      })
+      return
+    }
+
+    const annotationMatch = chunk.match(/^(?:port\s+)?([a-z]\w*)\s*:(?!:)(.*)$/)
+    if (annotationMatch) {
+      annotations.set(annotationMatch[1], normalize(annotationMatch[2]))
+      declarations.set(annotationMatch[1], { kind: "value", name: annotationMatch[1], signature: "" })
+      return
+    }
+
+    const infixMatch = chunk.match(/^infix\s+\w+\s+\d+\s+(\([^)\s]+\))\s*=\s*([a-z]\w*)/)
+    if (infixMatch) {
+      declarations.set(infixMatch[1], { kind: "value", name: infixMatch[1], signature: chunk })
+      return
+    }
+
+    const definitionMatch = chunk.match(/^([a-z]\w*)\b[^=]*=/)
+    if (definitionMatch && !/^(module|import|port|effect)\b/.test(chunk) && !declarations.has(definitionMatch[1])) {
+      declarations.set(definitionMatch[1], { kind: "value", name: definitionMatch[1], signature: "" })
+    }
+  })
+
+  // Values are described by their annotation, or by nothing at all when they don't have one
+  annotations.forEach((annotation, name) =>
+    declarations.set(name, { kind: "value", name, signature: `${name} : ${annotation}` })
+  )
+
+  return declarations
+}
+
+/**
+ * Reads the exposed API of an Elm module from its source: the `exposing` list of the module header, and the
+ * declarations it refers to. Returns null if the source has no module header that can be understood.
+ */
+export function parseModuleApi(source: string): ModuleApi | null {
+  const stripped = stripComments(source)
+  const header = stripped.match(/^(?:port\s+|effect\s+)?module\s+[\w.]+(?:\s+where\s*\{[^}]*\})?\s+exposing\s*\(/m)
+  if (!header || header.index === undefined) {
+    return null
+  }
+
+  const exposingList = balancedParens(stripped, header.index + header[0].length - 1)
+  if (exposingList === null) {
+    return null
+  }
+
+  const declarations = parseDeclarations(stripped)
+  const api: ModuleApi = new Map()
+
+  const expose = (declaration: Declaration, withConstructors: boolean): void => {
+    api.set(
+      declaration.name,
+      declaration.kind === "value" ? declaration.signature : withConstructors ? declaration.full : declaration.opaque
+    )
+  }
+
+  const items = splitTopLevel(exposingList)
+  if (items.length === 1 && items[0] === "..") {
+    declarations.forEach((declaration) => expose(declaration, true))
+    return api
+  }
+
+  items.forEach((item) => {
+    const name = item.replace(/\s+/g, "").replace(/\(\.\.\)$/, "")
+    const declaration = declarations.get(name)
+    if (declaration) {
+      expose(declaration, item.replace(/\s+/g, "").endsWith("(..)"))
+    } else {
+      // Declared somewhere this parser doesn't look, such as a kernel module; its presence is all that can be compared
+      api.set(name, "")
+    }
+  })
+
+  return api
+}
+
+// `exposed-modules` is either a flat list or, for packages that group their docs, an object of lists
+export function flattenExposedModules(exposedModules: string[] | Record<string, string[]>): string[] {
+  return Array.isArray(exposedModules) ? exposedModules : Object.values(exposedModules).flat()
+}
+
+// =============================================================================
+// Comparison
+// =============================================================================
+
+export function diffNames(before: string[], after: string[]): Omit<ApiDiff, "changed"> {
+  return {
+    removed: before.filter((name) => !after.includes(name)).sort(),
+    added: after.filter((name) => !before.includes(name)).sort(),
+  }
+}
+
+export function diffModuleApis(before: ModuleApi, after: ModuleApi): ApiDiff {
+  return {
+    ...diffNames([...before.keys()], [...after.keys()]),
+    changed: [...before.keys()].filter((name) => after.has(name) && after.get(name) !== before.get(name)).sort(),
+  }
+}
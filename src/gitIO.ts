@@ -1,5 +1,5 @@
-import { Result, ResultAsync, ok, err } from "neverthrow"
-import { exec } from "child_process"
+import { Result, ResultAsync, ok, err, errAsync } from "neverthrow"
+import { execFile } from "child_process"
 import { promisify } from "util"
 import * as fs from "fs"
 import * as path from "path"
@@ -8,8 +8,9 @@ import * as path from "path"
 // Git IO Error Types
 // =============================================================================
 
+// `message` is git's own stderr output, when there is any
 export type Error =
-  | { type: "repoNotFound"; url: string }
+  | { type: "repoNotFound"; url: string; message: string }
   | { type: "shaNotFound"; sha: string; recentCommits: string[] }
   | { type: "dirtyRepo"; status: string }
   | { type: "networkError"; message: string }
@@ -17,44 +18,55 @@ export type Error =
   | { type: "checkoutError"; sha: string; message: string }
   | { type: "pullError"; message: string }
   | { type: "commandError"; command: string; message: string }
+  | { type: "patchFailed"; patch: string; hunk: string | null; message: string }
 
 // =============================================================================
 // Git IO Interface
 // =============================================================================
 
 export interface GitIO {
+  // Just the version number, like "2.39.2"
+  getVersion: () => ResultAsync<string, Error>
   clone: (url: string, targetDir: string) => ResultAsync<void, Error>
   checkout: (repoDir: string, sha: string) => ResultAsync<void, Error>
   getCurrentSha: (repoDir: string) => ResultAsync<string, Error>
   getRecentCommits: (repoDir: string, count: number) => ResultAsync<string[], Error>
+  getCommitsBetween: (repoDir: string, fromSha: string, toSha: string) => ResultAsync<string[], Error>
   isClean: (repoDir: string) => ResultAsync<boolean, Error>
   pull: (repoDir: string) => ResultAsync<void, Error>
   resolveBranchToSha: (repoDir: string, branch: string) => ResultAsync<string, Error>
   shaExists: (repoDir: string, sha: string) => ResultAsync<boolean, Error>
+  applyPatch: (targetDir: string, patchFile: string) => ResultAsync<void, Error>
+  addWorktree: (repoDir: string, targetDir: string, sha: string) => ResultAsync<void, Error>
 }
 
 // =============================================================================
 // Live Implementation
 // =============================================================================
 
-const execAsync = promisify(exec)
+const execFileAsync = promisify(execFile)
 
-const runGitCommand = (command: string, cwd?: string): ResultAsync<string, Error> => {
+// Arguments go to git as they are, without a shell, so URLs and paths with spaces or shell syntax in them are safe
+const runGitCommand = (args: string[], cwd?: string, env?: NodeJS.ProcessEnv): ResultAsync<string, Error> => {
   return ResultAsync.fromPromise(
-    execAsync(command, { cwd, encoding: "utf-8" }).then(({ stdout }) => stdout.trim()),
+    execFileAsync("git", args, { cwd, env, encoding: "utf-8" }).then(({ stdout }) => stdout.trim()),
     (error: any) => ({
       type: "commandError" as const,
-      command,
-      message: error.message || "Unknown git command error",
+      command: ["git", ...args].join(" "),
+      message:
+        (typeof error.stderr === "string" && error.stderr.trim()) || error.message || "Unknown git command error",
     })
   )
 }
 
 export const createGitIO = (): ResultAsync<GitIO, string> => {
   return ResultAsync.fromPromise(
-    execAsync("git --version"),
+    execFileAsync("git", ["--version"]),
     (_) => "Could not find the `git` executable; exiting."
   ).map(() => ({
+    getVersion: (): ResultAsync<string, Error> =>
+      runGitCommand(["--version"]).map((output) => output.match(/\d+\.\d+(\.\d+)?/)?.[0] ?? output),
+
     clone: (url: string, targetDir: string): ResultAsync<void, Error> => {
       // Ensure parent directory exists
       const parentDir = path.dirname(targetDir)
@@ -62,13 +74,13 @@ export const createGitIO = (): ResultAsync<GitIO, string> => {
         fs.mkdirSync(parentDir, { recursive: true })
       }
 
-      return runGitCommand(`git clone ${url} ${targetDir}`)
+      return runGitCommand(["clone", "--", url, targetDir])
         .map(() => void 0)
         .mapErr((error) => {
           if (error.type === "commandError") {
             // Check if it's a network/repo not found error
             if (error.message.includes("not found") || error.message.includes("does not exist")) {
-              return { type: "repoNotFound", url } as const
+              return { type: "repoNotFound", url, message: error.message } as const
             }
             if (error.message.includes("network") || error.message.includes("connection")) {
               return { type: "networkError", message: error.message } as const
@@ -80,7 +92,7 @@ export const createGitIO = (): ResultAsync<GitIO, string> => {
     },
 
     checkout: (repoDir: string, sha: string): ResultAsync<void, Error> =>
-      runGitCommand(`git checkout ${sha}`, repoDir)
+      runGitCommand(["checkout", sha], repoDir)
         .map(() => void 0)
         .mapErr((error) => {
           if (error.type === "commandError") {
@@ -89,26 +101,31 @@ export const createGitIO = (): ResultAsync<GitIO, string> => {
           return error
         }),
 
-    getCurrentSha: (repoDir: string): ResultAsync<string, Error> => runGitCommand("git rev-parse HEAD", repoDir),
+    getCurrentSha: (repoDir: string): ResultAsync<string, Error> => runGitCommand(["rev-parse", "HEAD"], repoDir),
 
     getRecentCommits: (repoDir: string, count: number): ResultAsync<string[], Error> =>
-      runGitCommand(`git log --oneline -${count}`, repoDir).map((output) =>
+      runGitCommand(["log", "--oneline", `-${count}`], repoDir).map((output) =>
+        output.split("\n").filter((line) => line.trim() !== "")
+      ),
+
+    getCommitsBetween: (repoDir: string, fromSha: string, toSha: string): ResultAsync<string[], Error> =>
+      runGitCommand(["log", "--oneline", `${fromSha}..${toSha}`], repoDir).map((output) =>
         output.split("\n").filter((line) => line.trim() !== "")
       ),
 
     isClean: (repoDir: string): ResultAsync<boolean, Error> =>
-      runGitCommand("git status --porcelain", repoDir).map((output) => output.trim() === ""),
+      runGitCommand(["status", "--porcelain"], repoDir).map((output) => output.trim() === ""),
 
     pull: (repoDir: string): ResultAsync<void, Error> =>
       // Check if we're in detached HEAD state
-      runGitCommand("git symbolic-ref -q HEAD", repoDir)
+      runGitCommand(["symbolic-ref", "-q", "HEAD"], repoDir)
         .andThen(() => {
           // We're on a branch, safe to pull
-          return runGitCommand("git pull", repoDir).map(() => void 0)
+          return runGitCommand(["pull"], repoDir).map(() => void 0)
         })
         .orElse(() => {
           // We're in detached HEAD (common after checking out a SHA), just fetch
-          return runGitCommand("git fetch", repoDir).map(() => void 0)
+          return runGitCommand(["fetch"], repoDir).map(() => void 0)
         })
         .mapErr((error) => {
           if (error.type === "commandError") {
@@ -118,13 +135,69 @@ export const createGitIO = (): ResultAsync<GitIO, string> => {
         }),
 
     resolveBranchToSha: (repoDir: string, branch: string): ResultAsync<string, Error> =>
-      runGitCommand(`git rev-parse origin/${branch}`, repoDir).orElse(() =>
-        runGitCommand(`git rev-parse ${branch}`, repoDir)
+      runGitCommand(["rev-parse", `origin/${branch}`], repoDir).orElse(() =>
+        runGitCommand(["rev-parse", branch], repoDir)
       ),
 
     shaExists: (repoDir: string, sha: string): ResultAsync<boolean, Error> =>
-      runGitCommand(`git cat-file -e ${sha}`, repoDir)
+      runGitCommand(["cat-file", "-e", sha], repoDir)
         .map(() => true)
         .orElse(() => ResultAsync.fromSafePromise(Promise.resolve(false))),
+
+    applyPatch: (targetDir: string, patchFile: string): ResultAsync<void, Error> =>
+      // The ceiling stops git from discovering an enclosing repository (like the project itself) and applying the
+      // patch relative to that repository's root instead of `targetDir`
+      runGitCommand(["apply", "--verbose", "--whitespace=nowarn", patchFile], targetDir, {
+        ...process.env,
+        GIT_CEILING_DIRECTORIES: path.dirname(path.resolve(targetDir)),
+      })
+        .map(() => void 0)
+        .mapErr((error) => {
+          if (error.type === "commandError") {
+            // git reports the first hunk that doesn't apply as "error: patch failed: <file>:<line>"
+            const failedHunk = error.message.match(/patch failed: (.+:\d+)/)
+            return {
+              type: "patchFailed",
+              patch: patchFile,
+              hunk: failedHunk ? failedHunk[1] : null,
+              message: error.message,
+            } as const
+          }
+          return error
+        }),
+
+    addWorktree: (repoDir: string, targetDir: string, sha: string): ResultAsync<void, Error> =>
+      // Pruning forgets worktrees whose directories were deleted, and --force lets a directory that is still
+      // registered (but missing) be checked out again
+      runGitCommand(["worktree", "prune"], repoDir)
+        .andThen(() => runGitCommand(["worktree", "add", "--force", "--detach", targetDir, sha], repoDir))
+        .map(() => void 0)
+        .mapErr((error) => {
+          if (error.type === "commandError") {
+            return { type: "checkoutError", sha, message: error.message } as const
+          }
+          return error
+        }),
   }))
 }
+
+// Stands in for git when it can't be found, for the commands that can do without it: every operation fails with
+// `message`, the reason git couldn't be found
+export const createUnavailableGitIO = (message: string): GitIO => {
+  const unavailable = <T>(): ResultAsync<T, Error> => errAsync({ type: "commandError", command: "git", message })
+
+  return {
+    getVersion: unavailable,
+    clone: unavailable,
+    checkout: unavailable,
+    getCurrentSha: unavailable,
+    getRecentCommits: unavailable,
+    getCommitsBetween: unavailable,
+    isClean: unavailable,
+    pull: unavailable,
+    resolveBranchToSha: unavailable,
+    shaExists: unavailable,
+    applyPatch: unavailable,
+    addWorktree: unavailable,
+  }
+}
@@ -1,14 +1,22 @@
 import { describe, it, expect } from "vitest"
-import { okAsync, errAsync } from "neverthrow"
+import { ResultAsync, okAsync, errAsync } from "neverthrow"
 import path from "path"
 import { executeCommand } from "./impl"
 import { createTestRuntime } from "./cli"
-import { Command, SideloadConfig, UserIOAdapter } from "./types"
+import { createUnavailableGitIO } from "./gitIO"
+import { Command, ConfigureInput, FileError, SideloadConfig, SideloadLock, UserIOAdapter } from "./types"
 
-const mockUserIO: UserIOAdapter = {
+const mockUserIO: Partial<UserIOAdapter> = {
   prompt: (message: string) => okAsync("n"),
 }
 
+// Install checks that the Elm project it busts the cache for is there
+const projectElmJson = "/test/project/elm.json"
+
+// The elm.json of a sideload's source, which configure and install check against the package it replaces
+const toPackageElmJson = (name: string, version: string, elmVersion: string = "0.19.0 <= v < 0.20.0"): string =>
+  JSON.stringify({ type: "package", name, version, "elm-version": elmVersion, "exposed-modules": [] })
+
 describe("executeCommand", () => {
   it("should execute help command", async () => {
     const command: Command = { type: "help" }
@@ -51,6 +59,8 @@ describe("executeCommand", () => {
     expect(result.message).toContain("Created elm.sideload.json")
     expect(fileSystemWrites[expectedSideloadPath]).toBeDefined()
     const config = JSON.parse(fileSystemWrites[expectedSideloadPath])
+    expect(config.version).toBe(3)
+    expect(config.compiler).toBe("elm")
     expect(config.requireElmHome).toBe(false)
     expect(fileSystemWrites[expectedGitignorePath]).toContain(".elm.sideload.cache")
   })
@@ -70,7 +80,6 @@ describe("executeCommand", () => {
         elmHome: {
           type: "fromShellEnv",
           elmHome,
-          packagesPath: path.join(elmHome, "0.19.1", "packages"),
         },
       },
       {
@@ -130,6 +139,8 @@ describe("executeCommand", () => {
       type: "configure",
       packageName: "elm/html",
       source: { type: "github", url: "https://github.com/lydell/html", pinTo: { sha: "abc123def456" } },
+      allowMismatch: false,
+      link: false,
     }
 
     const mockElmJson = {
@@ -147,7 +158,9 @@ describe("executeCommand", () => {
     }
 
     const mockSideloadConfig: SideloadConfig = {
-      elmJsonPath: "elm.json",
+      version: 3,
+      elmJsonPaths: ["elm.json"],
+      compiler: "elm",
       requireElmHome: false,
       sideloads: [],
     }
@@ -169,6 +182,10 @@ describe("executeCommand", () => {
       pull: () => okAsync(undefined),
       resolveBranchToSha: () => okAsync("abc123def456"),
       shaExists: () => okAsync(true),
+      addWorktree: (repoDir: string, targetDir: string, sha: string) => {
+        gitIOCalls.push(`addWorktree:${repoDir}:${targetDir}:${sha}`)
+        return okAsync(undefined)
+      },
     }
 
     const runtime = createTestRuntime(
@@ -180,9 +197,12 @@ describe("executeCommand", () => {
       },
       {
         readFile: (path: string) => {
-          if (path.endsWith("elm.json")) {
+          if (path === "/test/project/elm.json") {
             return okAsync(JSON.stringify(mockElmJson))
           }
+          if (path.endsWith("elm.json")) {
+            return okAsync(toPackageElmJson("elm/html", "1.0.0"))
+          }
           if (path.endsWith("elm.sideload.json")) {
             return okAsync(JSON.stringify(mockSideloadConfig))
           }
@@ -201,7 +221,32 @@ describe("executeCommand", () => {
 
     // Verify GitIO operations were called for caching
     expect(gitIOCalls).toContain("clone:https://github.com/lydell/html:/test/project/.elm.sideload.cache/lydell/html")
-    expect(gitIOCalls).toContain("checkout:/test/project/.elm.sideload.cache/lydell/html:abc123def456")
+    expect(gitIOCalls).toContain(
+      "addWorktree:/test/project/.elm.sideload.cache/lydell/html:/test/project/.elm.sideload.cache/_worktrees/lydell/html/abc123def456:abc123def456"
+    )
+  })
+
+  it("should refuse a git URL that would put its clone outside the cache", async () => {
+    const clones: string[] = []
+    const runtime = createTestRuntime(
+      {
+        type: "configure",
+        packageName: "elm/html",
+        source: { type: "git", url: "https://example.com/a%2F..%2F..%2F..%2F..%2Fevil", pinTo: { sha: "abc123" } },
+        allowMismatch: false,
+        link: false,
+      },
+      { hasSideloadConfig: true },
+      {},
+      mockUserIO
+    )
+    runtime.gitIO.clone = (url: string, targetDir: string) => {
+      clones.push(targetDir)
+      return okAsync(undefined)
+    }
+
+    expect(((await executeCommand(runtime))._unsafeUnwrapErr() as { type: string }).type).toBe("invalidRemoteUrl")
+    expect(clones).toEqual([])
   })
 
   it("should execute configure command with branch resolution", async () => {
@@ -209,6 +254,8 @@ describe("executeCommand", () => {
       type: "configure",
       packageName: "elm/virtual-dom",
       source: { type: "github", url: "https://github.com/lydell/virtual-dom", pinTo: { branch: "safe" } },
+      allowMismatch: false,
+      link: false,
     }
 
     const mockElmJson = {
@@ -226,7 +273,9 @@ describe("executeCommand", () => {
     }
 
     const mockSideloadConfig: SideloadConfig = {
-      elmJsonPath: "elm.json",
+      version: 3,
+      elmJsonPaths: ["elm.json"],
+      compiler: "elm",
       requireElmHome: false,
       sideloads: [],
     }
@@ -251,6 +300,10 @@ describe("executeCommand", () => {
         return okAsync("resolved123sha")
       },
       shaExists: () => okAsync(true),
+      addWorktree: (repoDir: string, targetDir: string, sha: string) => {
+        gitIOCalls.push(`addWorktree:${repoDir}:${targetDir}:${sha}`)
+        return okAsync(undefined)
+      },
     }
 
     const runtime = createTestRuntime(
@@ -262,9 +315,12 @@ describe("executeCommand", () => {
       },
       {
         readFile: (path: string) => {
-          if (path.endsWith("elm.json")) {
+          if (path === "/test/project/elm.json") {
             return okAsync(JSON.stringify(mockElmJson))
           }
+          if (path.endsWith("elm.json")) {
+            return okAsync(toPackageElmJson("elm/virtual-dom", "1.0.4"))
+          }
           if (path.endsWith("elm.sideload.json")) {
             return okAsync(JSON.stringify(mockSideloadConfig))
           }
@@ -286,17 +342,25 @@ describe("executeCommand", () => {
       "clone:https://github.com/lydell/virtual-dom:/test/project/.elm.sideload.cache/lydell/virtual-dom"
     )
     expect(gitIOCalls).toContain("resolveBranchToSha:/test/project/.elm.sideload.cache/lydell/virtual-dom:safe")
-    expect(gitIOCalls).toContain("checkout:/test/project/.elm.sideload.cache/lydell/virtual-dom:resolved123sha")
+    expect(gitIOCalls).toContain(
+      "addWorktree:/test/project/.elm.sideload.cache/lydell/virtual-dom:/test/project/.elm.sideload.cache/_worktrees/lydell/virtual-dom/resolved123sha:resolved123sha"
+    )
   })
 
   it("should execute install command in dry-run mode", async () => {
     const command: Command = {
       type: "install",
       mode: "dry-run",
+      frozen: false,
+      watch: false,
+      link: false,
+      packages: [],
     }
 
     const mockConfig: SideloadConfig = {
-      elmJsonPath: "elm.json",
+      version: 3,
+      elmJsonPaths: ["elm.json"],
+      compiler: "elm",
       requireElmHome: false,
       sideloads: [
         {
@@ -330,11 +394,93 @@ describe("executeCommand", () => {
     expect(result.changes).toHaveLength(1)
   })
 
+  describe("install command in interactive mode", () => {
+    const mockConfig: SideloadConfig = {
+      version: 3,
+      elmJsonPaths: ["elm.json"],
+      compiler: "elm",
+      requireElmHome: false,
+      sideloads: [
+        {
+          originalPackageName: "elm/html",
+          originalPackageVersion: "1.0.0",
+          sideloadedPackage: { type: "relative", path: "../html" },
+        },
+        {
+          originalPackageName: "elm/virtual-dom",
+          originalPackageVersion: "1.0.4",
+          sideloadedPackage: { type: "relative", path: "../virtual-dom" },
+        },
+      ],
+    }
+
+    const toRuntime = (answers: Record<string, string>, installed: string[]) =>
+      createTestRuntime(
+        { type: "install", mode: "interactive", frozen: false, watch: false, link: false, packages: [] },
+        { hasElmJson: true, hasSideloadConfig: true },
+        {
+          readFile: (path: string) =>
+            path.endsWith("elm.sideload.json")
+              ? okAsync(JSON.stringify(mockConfig))
+              : path === "/test/html/elm.json"
+                ? okAsync(toPackageElmJson("elm/html", "1.0.0"))
+                : path === "/test/virtual-dom/elm.json"
+                  ? okAsync(toPackageElmJson("elm/virtual-dom", "1.0.4"))
+                  : errAsync("fileNotFound" as const),
+          rename: (_source: string, target: string) => {
+            installed.push(target)
+            return okAsync(undefined)
+          },
+        },
+        {
+          prompt: (message: string) => {
+            const key = Object.keys(answers).find((fragment) => message.includes(fragment))
+            return okAsync(key ? answers[key] : "")
+          },
+        }
+      )
+
+    it("should apply every sideload when the user answers 'all'", async () => {
+      const installed: string[] = []
+      const runtime = toRuntime({ "(a)ll": "a" }, installed)
+
+      const result = (await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(result.message).toContain("Successfully installed 2 sideloads")
+      expect(installed).toEqual([
+        "/test/elm/0.19.1/packages/elm/html/1.0.0",
+        "/test/elm/0.19.1/packages/elm/virtual-dom/1.0.4",
+      ])
+    })
+
+    it("should only apply the sideloads the user picks", async () => {
+      const installed: string[] = []
+      const runtime = toRuntime({ "(a)ll": "p", "elm/html?": "n", "elm/virtual-dom?": "y" }, installed)
+
+      const result = (await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(result.changes).toHaveLength(1)
+      expect(installed).toEqual(["/test/elm/0.19.1/packages/elm/virtual-dom/1.0.4"])
+    })
+
+    it("should not touch ELM_HOME when the user aborts", async () => {
+      const installed: string[] = []
+      const runtime = toRuntime({ "(a)ll": "q" }, installed)
+
+      const result = (await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(result.message).toContain("nothing was installed")
+      expect(installed).toEqual([])
+    })
+  })
+
   it("should execute unload command", async () => {
-    const command: Command = { type: "unload" }
+    const command: Command = { type: "unload", packages: [] }
 
     const mockConfig: SideloadConfig = {
-      elmJsonPath: "elm.json",
+      version: 3,
+      elmJsonPaths: ["elm.json"],
+      compiler: "elm",
       requireElmHome: false,
       sideloads: [
         {
@@ -364,4 +510,2455 @@ describe("executeCommand", () => {
     expect(result.message).toContain("Successfully unloaded 1 sideloads")
     expect(result.changes).toHaveLength(1)
   })
+
+  it("should refuse an elm.sideload.json that does not match the schema", async () => {
+    const runtime = createTestRuntime(
+      { type: "status" },
+      {},
+      {
+        readFile: () =>
+          okAsync(
+            JSON.stringify({ elmJsonPath: "elm.json", requireElmHome: false, sideloads: [{ name: "elm/html" }] })
+          ),
+      },
+      mockUserIO
+    )
+
+    const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+    expect(error).toMatchObject({ type: "invalidConfigSchema" })
+  })
+
+  it("should report configured and orphaned sideloads in status", async () => {
+    const mockConfig: SideloadConfig = {
+      version: 3,
+      elmJsonPaths: ["elm.json"],
+      compiler: "elm",
+      requireElmHome: false,
+      sideloads: [
+        {
+          originalPackageName: "elm/html",
+          originalPackageVersion: "1.0.0",
+          sideloadedPackage: { type: "github", url: "https://github.com/lydell/html", pinTo: { sha: "abc123def456" } },
+        },
+        {
+          originalPackageName: "elm/virtual-dom",
+          originalPackageVersion: "1.0.4",
+          sideloadedPackage: { type: "relative", path: "../virtual-dom" },
+        },
+        {
+          originalPackageName: "elm/browser",
+          originalPackageVersion: "1.0.2",
+          sideloadedPackage: { type: "relative", path: "../browser" },
+        },
+      ],
+    }
+
+    const packagesPath = "/test/elm/0.19.1/packages"
+    const existingPaths = new Set([
+      `${packagesPath}/elm/html/1.0.0`,
+      `${packagesPath}/elm/html/1.0.0/.elm-sideload`,
+      `${packagesPath}/elm/virtual-dom/1.0.4`,
+      `${packagesPath}/elm/json/1.1.3`,
+      `${packagesPath}/elm/json/1.1.3/.elm-sideload`,
+    ])
+    const directories: Record<string, string[]> = {
+      [packagesPath]: ["elm"],
+      [`${packagesPath}/elm`]: ["html", "virtual-dom", "json"],
+      [`${packagesPath}/elm/html`]: ["1.0.0"],
+      [`${packagesPath}/elm/virtual-dom`]: ["1.0.4"],
+      [`${packagesPath}/elm/json`]: ["1.1.3"],
+    }
+
+    const runtime = createTestRuntime(
+      { type: "status" },
+      {},
+      {
+        readFile: (path: string) =>
+          path.endsWith("elm.sideload.json") ? okAsync(JSON.stringify(mockConfig)) : errAsync("fileNotFound" as const),
+        exists: (path: string) => okAsync(existingPaths.has(path)),
+        readDirectory: (path: string) =>
+          path in directories ? okAsync(directories[path]) : errAsync("directoryNotFound" as const),
+      },
+      mockUserIO
+    )
+
+    const result = (await executeCommand(runtime))._unsafeUnwrap()
+
+    expect(result.packages).toEqual([
+      { packageName: "elm/html", version: "1.0.0", state: "sideloaded", configured: true },
+      { packageName: "elm/virtual-dom", version: "1.0.4", state: "official", configured: true },
+      { packageName: "elm/browser", version: "1.0.2", state: "missing", configured: true },
+      { packageName: "elm/json", version: "1.1.3", state: "sideloaded", configured: false },
+    ])
+    expect(result.message).toContain("elm/json 1.1.3")
+  })
+
+  describe("official package backups", () => {
+    const mockConfig: SideloadConfig = {
+      version: 3,
+      elmJsonPaths: ["elm.json"],
+      compiler: "elm",
+      requireElmHome: false,
+      sideloads: [
+        {
+          originalPackageName: "elm/html",
+          originalPackageVersion: "1.0.0",
+          sideloadedPackage: { type: "relative", path: "../html" },
+        },
+      ],
+    }
+    const packageDir = "/test/elm/0.19.1/packages/elm/html/1.0.0"
+    const backupDir = "/test/elm/0.19.1/elm-sideload-backups/elm/html/1.0.0"
+    const stagingDir = "/test/elm/0.19.1/elm-sideload-staging/elm/html/1.0.0"
+    const rollbackDir = "/test/elm/0.19.1/elm-sideload-rollback/elm/html/1.0.0"
+
+    const toRuntime = (command: Command, existingPaths: string[], log: string[]) =>
+      createTestRuntime(
+        command,
+        { hasElmJson: true, hasSideloadConfig: true },
+        {
+          readFile: (path: string) =>
+            path.endsWith("elm.sideload.json")
+              ? okAsync(JSON.stringify(mockConfig))
+              : path === "/test/html/elm.json"
+                ? okAsync(toPackageElmJson("elm/html", "1.0.0"))
+                : errAsync("fileNotFound" as const),
+          exists: (path: string) => okAsync(path === projectElmJson || existingPaths.includes(path)),
+          copyDirectoryRecursive: (source: string, target: string) => {
+            log.push(`copy:${source}:${target}`)
+            return okAsync(undefined)
+          },
+          rename: (source: string, target: string) => {
+            log.push(`rename:${source}:${target}`)
+            return okAsync(undefined)
+          },
+        },
+        mockUserIO
+      )
+
+    it("should back up the official package before install overwrites it", async () => {
+      const log: string[] = []
+      const runtime = toRuntime(
+        { type: "install", mode: "always", frozen: false, watch: false, link: false, packages: [] },
+        [packageDir],
+        log
+      )
+
+      ;(await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(log).toEqual([
+        `copy:/test/html:${stagingDir}`,
+        `copy:${packageDir}:${backupDir}`,
+        `rename:${packageDir}:${rollbackDir}`,
+        `rename:${stagingDir}:${packageDir}`,
+      ])
+    })
+
+    it("should not back up a package that already holds a sideload", async () => {
+      const log: string[] = []
+      const runtime = toRuntime(
+        { type: "install", mode: "always", frozen: false, watch: false, link: false, packages: [] },
+        [packageDir, `${packageDir}/.elm-sideload`],
+        log
+      )
+
+      ;(await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(log).toEqual([
+        `copy:/test/html:${stagingDir}`,
+        `rename:${packageDir}:${rollbackDir}`,
+        `rename:${stagingDir}:${packageDir}`,
+      ])
+    })
+
+    it("should restore from the backup on unload when one exists", async () => {
+      const log: string[] = []
+      const runtime = toRuntime({ type: "unload", packages: [] }, [packageDir, backupDir], log)
+
+      const result = (await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(log).toEqual([`copy:${backupDir}:${packageDir}`])
+      expect(result.changes).toEqual([{ packageName: "elm/html", action: "restored", source: backupDir }])
+    })
+
+    it("should report progress through the user IO adapter rather than stdout", async () => {
+      const logged: string[] = []
+      const runtime = toRuntime(
+        { type: "install", mode: "always", frozen: false, watch: false, link: false, packages: [] },
+        [packageDir],
+        []
+      )
+
+      ;(
+        await executeCommand({ ...runtime, userIO: { ...runtime.userIO, log: (line) => logged.push(line) } })
+      )._unsafeUnwrap()
+
+      expect(logged).toEqual([
+        `Copying /test/html to ${stagingDir}`,
+        `Backing up official package at ${packageDir} to ${backupDir}`,
+        `Moving ${stagingDir} to ${packageDir}`,
+      ])
+    })
+  })
+
+  describe("transactional install", () => {
+    const mockConfig: SideloadConfig = {
+      version: 3,
+      elmJsonPaths: ["elm.json"],
+      compiler: "elm",
+      requireElmHome: false,
+      sideloads: [
+        {
+          originalPackageName: "elm/html",
+          originalPackageVersion: "1.0.0",
+          sideloadedPackage: { type: "relative", path: "../html" },
+        },
+        {
+          originalPackageName: "elm/virtual-dom",
+          originalPackageVersion: "1.0.4",
+          sideloadedPackage: { type: "relative", path: "../virtual-dom" },
+        },
+      ],
+    }
+    const elmDir = "/test/elm/0.19.1"
+    const htmlDir = `${elmDir}/packages/elm/html/1.0.0`
+    const virtualDomDir = `${elmDir}/packages/elm/virtual-dom/1.0.4`
+
+    // Both packages already hold a sideload, so install moves them aside rather than backing them up
+    const toRuntime = (log: string[], fails: (operation: string) => boolean) => {
+      const record = (operation: string) => {
+        log.push(operation)
+        return fails(operation) ? errAsync("writeError" as const) : okAsync(undefined)
+      }
+
+      return createTestRuntime(
+        { type: "install", mode: "always", frozen: false, watch: false, link: false, packages: [] },
+        { hasElmJson: true, hasSideloadConfig: true },
+        {
+          readFile: (path: string) =>
+            path.endsWith("elm.sideload.json")
+              ? okAsync(JSON.stringify(mockConfig))
+              : path === "/test/html/elm.json"
+                ? okAsync(toPackageElmJson("elm/html", "1.0.0"))
+                : path === "/test/virtual-dom/elm.json"
+                  ? okAsync(toPackageElmJson("elm/virtual-dom", "1.0.4"))
+                  : errAsync("fileNotFound" as const),
+          writeFile: (path: string) => (path.endsWith(".json") ? record(`write:${path}`) : okAsync(undefined)),
+          exists: (path: string) =>
+            okAsync(
+              path === projectElmJson ||
+                [htmlDir, virtualDomDir].some((dir) => path === dir || path === `${dir}/.elm-sideload`)
+            ),
+          copyDirectoryRecursive: (source: string, target: string) => record(`copy:${source}:${target}`),
+          rename: (source: string, target: string) => record(`rename:${source}:${target}`),
+          deleteDir: (path: string) => (path.includes("/packages/") ? record(`delete:${path}`) : okAsync(undefined)),
+        },
+        mockUserIO
+      )
+    }
+
+    it("should not touch ELM_HOME when a sideload fails to stage", async () => {
+      const log: string[] = []
+      const runtime = toRuntime(log, (operation) => operation.startsWith("copy:/test/virtual-dom"))
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      expect(error).toEqual({
+        type: "sideloadFailed",
+        packageName: "elm/virtual-dom",
+        version: "1.0.4",
+        error: { type: "packageCopyFailed", cause: "writeError" },
+      })
+      expect(log.filter((operation) => !operation.startsWith("copy:"))).toEqual([])
+    })
+
+    it("should roll back the packages already swapped in when a later swap fails", async () => {
+      const log: string[] = []
+      const runtime = toRuntime(
+        log,
+        (operation) => operation === `rename:${elmDir}/elm-sideload-staging/elm/virtual-dom/1.0.4:${virtualDomDir}`
+      )
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      expect(error).toEqual({
+        type: "installRolledBack",
+        rolledBack: [{ packageName: "elm/html", version: "1.0.0" }],
+        error: {
+          type: "sideloadFailed",
+          packageName: "elm/virtual-dom",
+          version: "1.0.4",
+          error: { type: "packageCopyFailed", cause: "writeError" },
+        },
+      })
+      expect(log.filter((operation) => !operation.startsWith("copy:"))).toEqual([
+        `rename:${htmlDir}:${elmDir}/elm-sideload-rollback/elm/html/1.0.0`,
+        `rename:${elmDir}/elm-sideload-staging/elm/html/1.0.0:${htmlDir}`,
+        `rename:${virtualDomDir}:${elmDir}/elm-sideload-rollback/elm/virtual-dom/1.0.4`,
+        `rename:${elmDir}/elm-sideload-staging/elm/virtual-dom/1.0.4:${virtualDomDir}`,
+        `rename:${elmDir}/elm-sideload-rollback/elm/virtual-dom/1.0.4:${virtualDomDir}`,
+        `delete:${htmlDir}`,
+        `rename:${elmDir}/elm-sideload-rollback/elm/html/1.0.0:${htmlDir}`,
+      ])
+    })
+
+    it("should roll back every package when the lockfile can't be written", async () => {
+      const log: string[] = []
+      const runtime = toRuntime(log, (operation) => operation.startsWith("write:"))
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      expect(error).toEqual({
+        type: "installRolledBack",
+        rolledBack: [
+          { packageName: "elm/virtual-dom", version: "1.0.4" },
+          { packageName: "elm/html", version: "1.0.0" },
+        ],
+        error: "writeError",
+      })
+    })
+  })
+
+  describe("install --watch", () => {
+    const packageDir = "/test/elm/0.19.1/packages/elm/html/1.0.0"
+    const toConfig = (sideloadedPackage: SideloadConfig["sideloads"][number]["sideloadedPackage"]): SideloadConfig => ({
+      version: 3,
+      elmJsonPaths: ["elm.json"],
+      compiler: "elm",
+      requireElmHome: false,
+      sideloads: [{ originalPackageName: "elm/html", originalPackageVersion: "1.0.0", sideloadedPackage }],
+    })
+
+    // Once install is done, the "user" edits Html.elm and deletes Old.elm, then presses Ctrl-C - unless the watcher
+    // breaks down first, in which case Ctrl-C never comes
+    const toRuntime = (config: SideloadConfig, log: string[], logged: string[], breakWatcher = false) => {
+      let onChanges: (paths: string[]) => void = () => {}
+      let onError: (error: FileError) => void = () => {}
+      const record = (operation: string) => {
+        log.push(operation)
+        return okAsync(undefined)
+      }
+
+      return createTestRuntime(
+        { type: "install", mode: "always", frozen: false, watch: true, link: false, packages: [] },
+        { hasElmJson: true, hasSideloadConfig: true },
+        {
+          readFile: (path: string) =>
+            path.endsWith("elm.sideload.json")
+              ? okAsync(JSON.stringify(config))
+              : path === "/test/html/elm.json"
+                ? okAsync(toPackageElmJson("elm/html", "1.0.0"))
+                : errAsync("fileNotFound" as const),
+          exists: (path: string) => okAsync(path === projectElmJson || path === "/test/html/src/Html.elm"),
+          copyDirectoryRecursive: (source: string, target: string) => record(`copy:${source}:${target}`),
+          deleteFile: (path: string) => record(`deleteFile:${path}`),
+          deleteDir: (path: string) => record(`deleteDir:${path}`),
+          watchDirectory: (
+            path: string,
+            callback: (paths: string[]) => void,
+            errorCallback: (error: FileError) => void
+          ) => {
+            log.push(`watch:${path}`)
+            onChanges = callback
+            onError = errorCallback
+            return okAsync(() => {
+              log.push(`unwatch:${path}`)
+            })
+          },
+        },
+        {
+          log: (line: string) => logged.push(line),
+          untilInterrupted: () => {
+            if (breakWatcher) {
+              onError("watchError")
+              return ResultAsync.fromSafePromise(new Promise<void>(() => {}))
+            }
+            log.push("changed")
+            onChanges(["src/Html.elm", "src/Old.elm"])
+            return okAsync(undefined)
+          },
+        }
+      )
+    }
+
+    it("should copy just the changed files into ELM_HOME and bust the caches", async () => {
+      const log: string[] = []
+      const logged: string[] = []
+      const runtime = toRuntime(toConfig({ type: "relative", path: "../html" }), log, logged)
+
+      const result = (await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(log).toContain("watch:/test/html")
+      expect(log.slice(log.indexOf("changed") + 1)).toEqual([
+        "unwatch:/test/html",
+        `copy:/test/html/src/Html.elm:${packageDir}/src/Html.elm`,
+        `deleteDir:${packageDir}/src/Old.elm`,
+        `deleteFile:${packageDir}/artifacts.dat`,
+        `deleteFile:${packageDir}/artifacts.x.dat`,
+        "deleteDir:/test/project/elm-stuff/0.19.1",
+      ])
+      expect(logged).toContain("Synced elm/html 1.0.0 from /test/html: 1 updated, 1 removed")
+      expect(result.message).toContain("Stopped watching after 1 syncs")
+    })
+
+    it("should refuse to watch when no sideload has a relative source, before installing anything", async () => {
+      const log: string[] = []
+      const runtime = toRuntime(toConfig({ type: "archive", path: "html.zip", sha256: "abc" }), log, [])
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      expect(error).toBe("noRelativeSideloads")
+      expect(log).toEqual([])
+    })
+
+    it("should stop watching with the error when a watcher breaks down", async () => {
+      const log: string[] = []
+      const runtime = toRuntime(toConfig({ type: "relative", path: "../html" }), log, [], true)
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      expect(error).toEqual({ type: "sideloadFailed", packageName: "elm/html", version: "1.0.0", error: "watchError" })
+      expect(log).toContain("unwatch:/test/html")
+    })
+  })
+
+  describe("linked installs", () => {
+    const packageDir = "/test/elm/0.19.1/packages/elm/html/1.0.0"
+    const stagingDir = "/test/elm/0.19.1/elm-sideload-staging/elm/html/1.0.0"
+    const mockConfig: SideloadConfig = {
+      version: 3,
+      elmJsonPaths: ["elm.json"],
+      compiler: "elm",
+      requireElmHome: false,
+      sideloads: [
+        {
+          originalPackageName: "elm/html",
+          originalPackageVersion: "1.0.0",
+          sideloadedPackage: { type: "relative", path: "../html" },
+          link: true,
+        },
+      ],
+    }
+
+    const toRuntime = (command: Command, existingPaths: string[], symlinks: string[], log: string[]) => {
+      const record = (operation: string) => {
+        log.push(operation)
+        return okAsync(undefined)
+      }
+
+      return createTestRuntime(
+        command,
+        { hasElmJson: true, hasSideloadConfig: true },
+        {
+          readFile: (path: string) =>
+            path.endsWith("elm.sideload.json")
+              ? okAsync(JSON.stringify(mockConfig))
+              : path === "/test/html/elm.json"
+                ? okAsync(toPackageElmJson("elm/html", "1.0.0"))
+                : errAsync("fileNotFound" as const),
+          exists: (path: string) => okAsync(path === projectElmJson || existingPaths.includes(path)),
+          isSymlink: (path: string) => okAsync(symlinks.includes(path)),
+          readDirectory: (path: string) =>
+            path === "/test/html" ? okAsync(["README.md", "elm.json", "src"]) : okAsync([]),
+          copyDirectoryRecursive: (source: string, target: string) => record(`copy:${source}:${target}`),
+          symlink: (target: string, path: string) => record(`symlink:${target}:${path}`),
+          deleteFile: (path: string) => (path.endsWith(".dat") ? okAsync(undefined) : record(`deleteFile:${path}`)),
+          deleteDir: (path: string) => record(`deleteDir:${path}`),
+        },
+        mockUserIO
+      )
+    }
+
+    it("should link the source's src folder and copy everything else", async () => {
+      const log: string[] = []
+      const runtime = toRuntime(
+        { type: "install", mode: "always", frozen: false, watch: false, link: false, packages: [] },
+        [],
+        [],
+        log
+      )
+
+      const result = (await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(log.filter((operation) => !operation.startsWith("deleteDir:"))).toEqual([
+        `copy:/test/html/README.md:${stagingDir}/README.md`,
+        `copy:/test/html/elm.json:${stagingDir}/elm.json`,
+        `symlink:/test/html/src:${stagingDir}/src`,
+      ])
+      expect(result.changes).toEqual([{ packageName: "elm/html", action: "linked", source: "../html" }])
+    })
+
+    it("should report linked installs in status", async () => {
+      const runtime = toRuntime(
+        { type: "status" },
+        [packageDir, `${packageDir}/.elm-sideload`],
+        [`${packageDir}/src`],
+        []
+      )
+
+      const result = (await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(result.packages).toEqual([
+        { packageName: "elm/html", version: "1.0.0", state: "linked", configured: true },
+      ])
+      expect(result.message).toContain("elm/html 1.0.0: sideloaded, linked to its source folder")
+    })
+
+    it("should remove the link on its own before deleting the package on unload", async () => {
+      const log: string[] = []
+      const runtime = toRuntime({ type: "unload", packages: [] }, [packageDir], [`${packageDir}/src`], log)
+
+      ;(await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(log).toEqual([`deleteFile:${packageDir}/src`, `deleteDir:${packageDir}`])
+    })
+  })
+
+  describe("several Elm projects", () => {
+    const toAppElmJson = (htmlVersion: string) =>
+      JSON.stringify({
+        type: "application",
+        "source-directories": ["src"],
+        "elm-version": "0.19.1",
+        dependencies: {
+          direct: { "elm/html": htmlVersion },
+          indirect: {},
+          "test-dependencies": { direct: {}, indirect: {} },
+        },
+      })
+    const toConfig = (sideloads: SideloadConfig["sideloads"]): SideloadConfig => ({
+      version: 3,
+      elmJsonPaths: ["app/elm.json", "review/elm.json"],
+      compiler: "elm",
+      requireElmHome: false,
+      sideloads,
+    })
+    const toRegistration = (version: string): SideloadConfig["sideloads"][number] => ({
+      originalPackageName: "elm/html",
+      originalPackageVersion: version,
+      sideloadedPackage: { type: "relative", path: "../html" },
+      allowMismatch: true,
+    })
+
+    const toRuntime = (command: Command, config: SideloadConfig, existingPaths: string[], log: string[]) =>
+      createTestRuntime(
+        command,
+        { hasElmJson: false, hasSideloadConfig: true },
+        {
+          readFile: (path: string) =>
+            path.endsWith("elm.sideload.json")
+              ? okAsync(JSON.stringify(config))
+              : path === "/test/project/app/elm.json"
+                ? okAsync(toAppElmJson("1.0.0"))
+                : path === "/test/project/review/elm.json"
+                  ? okAsync(toAppElmJson("1.0.5"))
+                  : path === "/test/html/elm.json"
+                    ? okAsync(toPackageElmJson("elm/html", "1.0.5"))
+                    : errAsync("fileNotFound" as const),
+          writeFile: (path: string, content: string) => {
+            log.push(`write:${path}:${content}`)
+            return okAsync(undefined)
+          },
+          exists: (path: string) => okAsync(existingPaths.includes(path)),
+          deleteDir: (path: string) => {
+            log.push(`deleteDir:${path}`)
+            return okAsync(undefined)
+          },
+        },
+        mockUserIO
+      )
+
+    it("should configure a sideload for the version of the package in each elm.json", async () => {
+      const log: string[] = []
+      const runtime = toRuntime(
+        {
+          type: "configure",
+          packageName: "elm/html",
+          source: { type: "relative", path: "../html" },
+          allowMismatch: true,
+          link: false,
+        },
+        toConfig([]),
+        [],
+        log
+      )
+
+      const result = (await executeCommand(runtime))._unsafeUnwrap()
+
+      const written = log.find((line) => line.startsWith("write:/test/project/elm.sideload.json:"))!
+      const config = JSON.parse(written.slice("write:/test/project/elm.sideload.json:".length))
+      expect(config.sideloads).toEqual([toRegistration("1.0.0"), toRegistration("1.0.5")])
+      expect(result.message).toBe("Configured sideload for elm/html 1.0.0, 1.0.5")
+    })
+
+    it("should install every version and bust the elm-stuff of every project", async () => {
+      const log: string[] = []
+      const runtime = toRuntime(
+        { type: "install", mode: "always", frozen: false, watch: false, link: false, packages: [] },
+        toConfig([toRegistration("1.0.0"), toRegistration("1.0.5")]),
+        [
+          "/test/project/app/elm.json",
+          "/test/project/review/elm.json",
+          "/test/project/app/elm-stuff/0.19.1",
+          "/test/project/review/elm-stuff/0.19.1",
+        ],
+        log
+      )
+
+      const result = (await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(result.changes?.map((change) => change.packageName)).toEqual(["elm/html", "elm/html"])
+      expect(log.filter((line) => line.includes("elm-stuff"))).toEqual([
+        "deleteDir:/test/project/app/elm-stuff/0.19.1",
+        "deleteDir:/test/project/review/elm-stuff/0.19.1",
+      ])
+    })
+
+    it("should refuse to install when an elm.json that the config lists is missing", async () => {
+      const runtime = toRuntime(
+        { type: "install", mode: "always", frozen: false, watch: false, link: false, packages: [] },
+        toConfig([toRegistration("1.0.0")]),
+        ["/test/project/app/elm.json"],
+        []
+      )
+
+      expect((await executeCommand(runtime))._unsafeUnwrapErr()).toBe("noElmJsonFound")
+    })
+  })
+
+  describe("selective install and unload", () => {
+    const toRelativeRegistration = (packageName: string): SideloadConfig["sideloads"][number] => ({
+      originalPackageName: packageName,
+      originalPackageVersion: "1.0.0",
+      sideloadedPackage: { type: "relative", path: `../${packageName.split("/")[1]}` },
+      allowMismatch: true,
+    })
+    const mockConfig: SideloadConfig = {
+      version: 3,
+      elmJsonPaths: ["elm.json"],
+      compiler: "elm",
+      requireElmHome: false,
+      sideloads: ["elm/html", "elm/virtual-dom", "lydell/elm-app-url"].map(toRelativeRegistration),
+    }
+
+    const toRuntime = (command: Command) =>
+      createTestRuntime(
+        command,
+        { hasSideloadConfig: true },
+        {
+          readFile: (path: string) =>
+            path.endsWith("elm.sideload.json")
+              ? okAsync(JSON.stringify(mockConfig))
+              : path.endsWith("elm.json")
+                ? okAsync(toPackageElmJson("elm/html", "1.0.0"))
+                : errAsync("fileNotFound" as const),
+        },
+        mockUserIO
+      )
+
+    it("should only install the packages that match the names and globs given", async () => {
+      const runtime = toRuntime({
+        type: "install",
+        mode: "always",
+        frozen: false,
+        watch: false,
+        link: false,
+        packages: ["elm/*"],
+      })
+
+      const result = (await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(result.changes?.map((change) => change.packageName)).toEqual(["elm/html", "elm/virtual-dom"])
+    })
+
+    it("should only unload the packages named", async () => {
+      const runtime = toRuntime({ type: "unload", packages: ["lydell/elm-app-url"] })
+
+      const result = (await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(result.changes?.map((change) => change.packageName)).toEqual(["lydell/elm-app-url"])
+    })
+
+    it("should list the configured packages when a name matches none of them", async () => {
+      const runtime = toRuntime({ type: "unload", packages: ["elm/html", "elm/virtual-dmo"] })
+
+      expect((await executeCommand(runtime))._unsafeUnwrapErr()).toEqual({
+        type: "unknownPackages",
+        patterns: ["elm/virtual-dmo"],
+        configured: ["elm/html", "elm/virtual-dom", "lydell/elm-app-url"],
+      })
+    })
+  })
+
+  describe("remove command", () => {
+    const toGitRegistration = (packageName: string, url: string): SideloadConfig["sideloads"][number] => ({
+      originalPackageName: packageName,
+      originalPackageVersion: "1.0.0",
+      sideloadedPackage: { type: "github", url, pinTo: { sha: "abc123" } },
+    })
+    const mockConfig: SideloadConfig = {
+      version: 3,
+      elmJsonPaths: ["elm.json"],
+      compiler: "elm",
+      requireElmHome: false,
+      sideloads: [
+        toGitRegistration("elm/html", "https://github.com/lydell/html"),
+        toGitRegistration("elm/virtual-dom", "https://github.com/lydell/virtual-dom"),
+      ],
+    }
+    const mockLock: SideloadLock = {
+      lockfileVersion: 1,
+      sideloads: mockConfig.sideloads.map((sideload) => ({
+        originalPackageName: sideload.originalPackageName,
+        originalPackageVersion: "1.0.0",
+        source: "github",
+        resolvedCommit: "abc123",
+        contentHash: "hash",
+      })),
+    }
+    const packageDir = "/test/elm/0.19.1/packages/elm/html/1.0.0"
+    const backupDir = "/test/elm/0.19.1/elm-sideload-backups/elm/html/1.0.0"
+
+    const toRuntime = (command: Command, config: SideloadConfig, existingPaths: string[], log: string[]) =>
+      createTestRuntime(
+        command,
+        { hasSideloadConfig: true },
+        {
+          readFile: (path: string) =>
+            path.endsWith("elm.sideload.json")
+              ? okAsync(JSON.stringify(config))
+              : path.endsWith("elm.sideload.lock.json")
+                ? okAsync(JSON.stringify(mockLock))
+                : errAsync("fileNotFound" as const),
+          writeFile: (path: string, content: string) => {
+            log.push(`write:${path}:${content}`)
+            return okAsync(undefined)
+          },
+          exists: (path: string) => okAsync(existingPaths.includes(path)),
+          copyDirectoryRecursive: (source: string, target: string) => {
+            log.push(`copy:${source}:${target}`)
+            return okAsync(undefined)
+          },
+          deleteDir: (path: string) => {
+            log.push(`deleteDir:${path}`)
+            return okAsync(undefined)
+          },
+        },
+        mockUserIO
+      )
+
+    const writtenJson = (log: string[], file: string): any => {
+      const prefix = `write:/test/project/${file}:`
+      return JSON.parse(log.find((line) => line.startsWith(prefix))!.slice(prefix.length))
+    }
+
+    it("should drop the registration and its lock entry, restore the official package and bust elm-stuff", async () => {
+      const log: string[] = []
+      const runtime = toRuntime(
+        { type: "remove", packageName: "elm/html", prune: false },
+        mockConfig,
+        [packageDir, `${packageDir}/.elm-sideload`, backupDir, "/test/project/elm-stuff/0.19.1"],
+        log
+      )
+
+      const result = (await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(result.changes).toEqual([{ packageName: "elm/html", action: "restored", source: backupDir }])
+      expect(log).toContain(`copy:${backupDir}:${packageDir}`)
+      expect(log).toContain("deleteDir:/test/project/elm-stuff/0.19.1")
+      expect(writtenJson(log, "elm.sideload.json").sideloads).toEqual([mockConfig.sideloads[1]])
+      expect(writtenJson(log, "elm.sideload.lock.json").sideloads).toEqual([mockLock.sideloads[1]])
+      expect(log.some((line) => line.includes(".elm.sideload.cache"))).toBe(false)
+    })
+
+    it("should leave an official package in ELM_HOME alone", async () => {
+      const log: string[] = []
+      const runtime = toRuntime(
+        { type: "remove", packageName: "elm/html", prune: false },
+        mockConfig,
+        [packageDir],
+        log
+      )
+
+      const result = (await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(result.changes).toEqual([])
+      expect(log.some((line) => line.includes(packageDir))).toBe(false)
+    })
+
+    it("should prune the cached clone only when no other sideload uses it", async () => {
+      const sharedConfig: SideloadConfig = {
+        ...mockConfig,
+        sideloads: [...mockConfig.sideloads, toGitRegistration("elm/browser", "https://github.com/lydell/html")],
+      }
+
+      const prunedLog: string[] = []
+      ;(
+        await executeCommand(
+          toRuntime({ type: "remove", packageName: "elm/virtual-dom", prune: true }, sharedConfig, [], prunedLog)
+        )
+      )._unsafeUnwrap()
+      expect(prunedLog.filter((line) => line.includes(".elm.sideload.cache"))).toEqual([
+        "deleteDir:/test/project/.elm.sideload.cache/_worktrees/lydell/virtual-dom",
+        "deleteDir:/test/project/.elm.sideload.cache/lydell/virtual-dom",
+      ])
+
+      const sharedLog: string[] = []
+      ;(
+        await executeCommand(
+          toRuntime({ type: "remove", packageName: "elm/html", prune: true }, sharedConfig, [], sharedLog)
+        )
+      )._unsafeUnwrap()
+      expect(sharedLog.some((line) => line.includes(".elm.sideload.cache"))).toBe(false)
+    })
+
+    it("should fail for a package that has no sideload", async () => {
+      const runtime = toRuntime({ type: "remove", packageName: "elm/json", prune: false }, mockConfig, [], [])
+
+      expect((await executeCommand(runtime))._unsafeUnwrapErr()).toBe("sideloadNotConfigured")
+    })
+  })
+
+  describe("doctor command", () => {
+    const packageDir = "/test/elm/0.19.1/packages/elm/html/1.0.0"
+    const worktreeDir = "/test/project/.elm.sideload.cache/_worktrees/lydell/virtual-dom/abc123"
+    const mockConfig: SideloadConfig = {
+      version: 3,
+      elmJsonPaths: ["elm.json"],
+      compiler: "elm",
+      requireElmHome: false,
+      sideloads: [
+        {
+          originalPackageName: "elm/html",
+          originalPackageVersion: "1.0.0",
+          sideloadedPackage: { type: "relative", path: "../html" },
+          link: true,
+        },
+        {
+          originalPackageName: "elm/virtual-dom",
+          originalPackageVersion: "1.0.4",
+          sideloadedPackage: { type: "github", url: "https://github.com/lydell/virtual-dom", pinTo: { sha: "abc123" } },
+        },
+      ],
+    }
+    const healthyPaths = [
+      "/test/elm/0.19.1/packages",
+      packageDir,
+      `${packageDir}/.elm-sideload`,
+      "/test/elm/0.19.1/packages/elm/virtual-dom/1.0.4",
+      worktreeDir,
+      "/test/project/elm-stuff/0.19.1",
+    ]
+
+    const toRuntime = (
+      config: SideloadConfig,
+      existingPaths: string[],
+      modifiedTimes: Record<string, number>,
+      options: { gitignore: string; clean: boolean; logs: string[] }
+    ) => {
+      const runtime = createTestRuntime(
+        { type: "doctor" },
+        { hasSideloadConfig: true },
+        {
+          readFile: (path: string) =>
+            path.endsWith("elm.sideload.json")
+              ? okAsync(JSON.stringify(config))
+              : path.endsWith(".gitignore")
+                ? okAsync(options.gitignore)
+                : errAsync("fileNotFound" as const),
+          exists: (path: string) => okAsync(existingPaths.includes(path)),
+          listFilesRecursive: (path: string) =>
+            okAsync(path === packageDir ? [".elm-sideload", "elm.json", "src/Html.elm", "artifacts.dat"] : []),
+          modifiedTime: (path: string) => okAsync(modifiedTimes[path] ?? 0),
+        },
+        { ...mockUserIO, log: (message: string) => options.logs.push(message) }
+      )
+      runtime.gitIO.isClean = () => okAsync(options.clean)
+      return runtime
+    }
+
+    it("should pass every check in a healthy environment", async () => {
+      const runtime = toRuntime(
+        mockConfig,
+        healthyPaths,
+        {
+          [`${packageDir}/artifacts.dat`]: 20,
+          [`${packageDir}/src/Html.elm`]: 10,
+          "/test/project/elm-stuff/0.19.1": 30,
+        },
+        { gitignore: "node_modules\n/.elm.sideload.cache/\n", clean: true, logs: [] }
+      )
+
+      const result = (await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(result.checks?.map((c) => [c.name, c.status])).toEqual([
+        ["git", "pass"],
+        ["elm.sideload.json", "pass"],
+        ["requireElmHome", "pass"],
+        ["ELM_HOME", "pass"],
+        ["packages", "pass"],
+        ["cached repositories", "pass"],
+        ["artifacts", "pass"],
+        ["elm-stuff", "pass"],
+        ["gitignore", "pass"],
+      ])
+    })
+
+    it("should warn about stale artifacts, leftover elm-stuff and a missing .gitignore entry", async () => {
+      const runtime = toRuntime(
+        mockConfig,
+        healthyPaths,
+        {
+          [`${packageDir}/artifacts.dat`]: 10,
+          [`${packageDir}/src/Html.elm`]: 20,
+          [`${packageDir}/.elm-sideload`]: 15,
+        },
+        { gitignore: "node_modules\n", clean: true, logs: [] }
+      )
+
+      const result = (await executeCommand(runtime))._unsafeUnwrap()
+
+      const warnings = result.checks?.filter((c) => c.status === "warn")
+      expect(warnings?.map((c) => c.name)).toEqual(["artifacts", "elm-stuff", "gitignore"])
+      expect(warnings?.[0].message).toBe(`Built from older code: ${packageDir}/artifacts.dat`)
+    })
+
+    it("should fail, with a hint for each problem, when the environment is broken", async () => {
+      const logs: string[] = []
+      const runtime = toRuntime(
+        { ...mockConfig, requireElmHome: true },
+        healthyPaths.filter((p) => p !== "/test/elm/0.19.1/packages/elm/virtual-dom/1.0.4"),
+        {},
+        { gitignore: ".elm.sideload.cache\n", clean: false, logs }
+      )
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      const report = logs.join("\n")
+      expect(report).toContain("fail  requireElmHome: elm.sideload.json requires ELM_HOME to be set")
+      expect(report).toContain("fail  packages: Missing from ELM_HOME: elm/virtual-dom 1.0.4")
+      expect(report).toContain(`fail  cached repositories: Uncommitted changes in ${worktreeDir}`)
+      expect(report).toContain("3 failed")
+      // The error carries the checks too, for --json
+      expect(error).toMatchObject({ type: "doctorFoundProblems" })
+      const checks = typeof error === "object" && error.type === "doctorFoundProblems" ? error.checks : []
+      expect(checks.filter((c) => c.status === "fail").map((c) => c.name)).toEqual([
+        "requireElmHome",
+        "packages",
+        "cached repositories",
+      ])
+    })
+
+    it("should report a missing git as a failed check", async () => {
+      const runtime = toRuntime(
+        mockConfig,
+        healthyPaths,
+        {},
+        { gitignore: ".elm.sideload.cache\n", clean: true, logs: [] }
+      )
+      runtime.gitIO = createUnavailableGitIO("Could not find the `git` executable; exiting.")
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      const checks = typeof error === "object" && error.type === "doctorFoundProblems" ? error.checks : []
+      expect(checks.find((c) => c.name === "git")).toMatchObject({ status: "fail", message: "git could not be run" })
+    })
+
+    it("should accept a git version that leaves out the patch number", async () => {
+      const runtime = toRuntime(
+        mockConfig,
+        healthyPaths,
+        {},
+        { gitignore: ".elm.sideload.cache\n", clean: true, logs: [] }
+      )
+      runtime.gitIO.getVersion = () => okAsync("2.5")
+
+      const result = (await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(result.checks?.find((c) => c.name === "git")).toMatchObject({ status: "pass", message: "git 2.5" })
+    })
+  })
+
+  describe("compiler profiles", () => {
+    const toRuntime = (command: Command, files: Record<string, string>, log: string[]) =>
+      createTestRuntime(
+        command,
+        { hasSideloadConfig: command.type !== "init" },
+        {
+          readFile: (path: string) => (path in files ? okAsync(files[path]) : errAsync("fileNotFound" as const)),
+          writeFile: (path: string, content: string) => {
+            log.push(`write:${path}:${content}`)
+            return okAsync(undefined)
+          },
+          deleteFile: (path: string) => {
+            log.push(`deleteFile:${path}`)
+            return okAsync(undefined)
+          },
+          rename: (from: string, to: string) => {
+            log.push(`rename:${from}:${to}`)
+            return okAsync(undefined)
+          },
+        },
+        mockUserIO
+      )
+
+    it("should detect a Lamdera app during init", async () => {
+      const log: string[] = []
+      const elmJson = JSON.stringify({
+        type: "application",
+        dependencies: { direct: { "lamdera/core": "1.0.0" }, indirect: {} },
+      })
+      const runtime = toRuntime({ type: "init" }, { "/test/project/elm.json": elmJson }, log)
+
+      ;(await executeCommand(runtime))._unsafeUnwrap()
+
+      const written = log.find((line) => line.startsWith("write:/test/project/elm.sideload.json:"))!
+      expect(JSON.parse(written.slice("write:/test/project/elm.sideload.json:".length)).compiler).toBe("lamdera")
+    })
+
+    it("should install into Zokka's own packages directory and only bust its artifacts", async () => {
+      const log: string[] = []
+      const config: SideloadConfig = {
+        version: 3,
+        elmJsonPaths: ["elm.json"],
+        compiler: "zokka",
+        requireElmHome: false,
+        sideloads: [
+          {
+            originalPackageName: "elm/html",
+            originalPackageVersion: "1.0.0",
+            sideloadedPackage: { type: "relative", path: "../html" },
+            allowMismatch: true,
+          },
+        ],
+      }
+      const runtime = toRuntime(
+        { type: "install", mode: "always", frozen: false, watch: false, link: false, packages: [] },
+        {
+          "/test/project/elm.sideload.json": JSON.stringify(config),
+          "/test/project/elm.json": JSON.stringify({ type: "application", "zokka-package-overrides": [] }),
+          "/test/html/elm.json": toPackageElmJson("elm/html", "1.0.0"),
+        },
+        log
+      )
+
+      ;(await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(log).toContain(
+        "rename:/test/elm/0.19.1/zokka/elm-sideload-staging/elm/html/1.0.0:/test/elm/0.19.1/zokka/packages/elm/html/1.0.0"
+      )
+      expect(log.filter((line) => line.endsWith(".dat"))).toEqual([
+        "deleteFile:/test/elm/0.19.1/zokka/elm-sideload-staging/elm/html/1.0.0/artifacts.dat",
+      ])
+    })
+  })
+
+  describe("export --format zokka", () => {
+    const config: SideloadConfig = {
+      version: 3,
+      elmJsonPaths: ["app/elm.json", "review/elm.json"],
+      compiler: "zokka",
+      requireElmHome: false,
+      sideloads: [
+        {
+          originalPackageName: "elm/html",
+          originalPackageVersion: "1.0.0",
+          sideloadedPackage: { type: "relative", path: "../html" },
+        },
+      ],
+    }
+    const unrelatedOverride = {
+      "original-package-name": "elm/core",
+      "original-package-version": "1.0.5",
+      "override-package-name": "zokka/elm-core-1-0-override",
+      "override-package-version": "1.0.0",
+    }
+    const toAppElmJson = (dependencies: Record<string, string>, overrides: unknown[]) =>
+      JSON.stringify({
+        type: "application",
+        "source-directories": ["src"],
+        "elm-version": "0.19.1",
+        dependencies: { direct: dependencies, indirect: {}, "test-dependencies": { direct: {}, indirect: {} } },
+        "zokka-package-overrides": overrides,
+      })
+
+    const toRuntime = (appOverrides: unknown[], writes: Record<string, string>, copies: string[]) =>
+      createTestRuntime(
+        { type: "export", format: "zokka" },
+        { hasSideloadConfig: true },
+        {
+          readFile: (path: string) =>
+            path === "/test/project/elm.sideload.json"
+              ? okAsync(JSON.stringify(config))
+              : path === "/test/project/app/elm.json"
+                ? okAsync(toAppElmJson({ "elm/html": "1.0.0" }, appOverrides))
+                : path === "/test/project/review/elm.json"
+                  ? okAsync(toAppElmJson({ "elm/json": "1.1.3" }, []))
+                  : path === "/test/html/elm.json"
+                    ? okAsync(toPackageElmJson("elm/html", "1.0.0"))
+                    : errAsync("fileNotFound" as const),
+          writeFile: (path: string, content: string) => {
+            writes[path] = content
+            return okAsync(undefined)
+          },
+          copyDirectoryRecursive: (source: string, target: string) => {
+            copies.push(`${source} -> ${target}`)
+            return okAsync(undefined)
+          },
+        },
+        mockUserIO
+      )
+
+    it("should copy each sideload into the project and point the elm.json files that use it there", async () => {
+      const writes: Record<string, string> = {}
+      const copies: string[] = []
+      const runtime = toRuntime([unrelatedOverride], writes, copies)
+
+      const result = (await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(copies).toEqual(["/test/html -> /test/project/zokka-packages/elm/html/1.0.0"])
+      expect(JSON.parse(writes["/test/project/app/elm.json"])["zokka-package-overrides"]).toEqual([
+        unrelatedOverride,
+        {
+          "original-package-name": "elm/html",
+          "original-package-version": "1.0.0",
+          "override-package-name": "elm/html",
+          "override-package-version": "1.0.0",
+        },
+      ])
+      expect(JSON.parse(writes["/test/project/review/elm.json"])["zokka-package-overrides"]).toEqual([])
+      expect(result.message).toContain("elm/html 1.0.0 -> zokka-packages/elm/html/1.0.0")
+      expect(Object.keys(writes).some((path) => path.startsWith("/test/elm"))).toBe(false)
+    })
+
+    it("should refuse to rewrite overrides it doesn't understand", async () => {
+      const writes: Record<string, string> = {}
+      const runtime = toRuntime([{ "original-package-name": "elm/core" }], writes, [])
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      expect(error).toBe("invalidZokkaOverrides")
+      expect(writes["/test/project/app/elm.json"]).toBeUndefined()
+    })
+  })
+
+  describe("lockfile", () => {
+    const mockConfig: SideloadConfig = {
+      version: 3,
+      elmJsonPaths: ["elm.json"],
+      compiler: "elm",
+      requireElmHome: false,
+      sideloads: [
+        {
+          originalPackageName: "elm/html",
+          originalPackageVersion: "1.0.0",
+          sideloadedPackage: { type: "relative", path: "../html" },
+        },
+      ],
+    }
+    const lockfilePath = "/test/project/elm.sideload.lock.json"
+
+    const toRuntime = (
+      frozen: boolean,
+      files: Record<string, string>,
+      writes: Record<string, string>,
+      mode: "always" | "dry-run" = "always"
+    ) =>
+      createTestRuntime(
+        { type: "install", mode, frozen, watch: false, link: false, packages: [] },
+        { hasElmJson: true, hasSideloadConfig: true },
+        {
+          readFile: (path: string) =>
+            path.endsWith("elm.sideload.json")
+              ? okAsync(JSON.stringify(mockConfig))
+              : path in writes
+                ? okAsync(writes[path])
+                : path === "/test/html/elm.json"
+                  ? okAsync(toPackageElmJson("elm/html", "1.0.0"))
+                  : errAsync("fileNotFound" as const),
+          writeFile: (path: string, content: string) => {
+            writes[path] = content
+            return okAsync(undefined)
+          },
+          listFilesRecursive: () => okAsync(Object.keys(files)),
+          hashFile: (path: string) => okAsync(files[path.replace("/test/html/", "")]),
+        },
+        mockUserIO
+      )
+
+    it("should record a content hash for each installed sideload", async () => {
+      const writes: Record<string, string> = {}
+      const runtime = toRuntime(false, { "elm.json": "aaa", "src/Html.elm": "bbb" }, writes)
+
+      ;(await executeCommand(runtime))._unsafeUnwrap()
+
+      const lock = JSON.parse(writes[lockfilePath])
+      expect(lock.lockfileVersion).toBe(1)
+      expect(lock.sideloads).toHaveLength(1)
+      expect(lock.sideloads[0]).toMatchObject({
+        originalPackageName: "elm/html",
+        originalPackageVersion: "1.0.0",
+        source: "../html",
+        resolvedCommit: null,
+      })
+      expect(lock.sideloads[0].contentHash).toMatch(/^sha256-[0-9a-f]{64}$/)
+    })
+
+    it("should fail in frozen mode when the source no longer produces the locked hash", async () => {
+      const writes: Record<string, string> = {}
+      ;(await executeCommand(toRuntime(false, { "src/Html.elm": "bbb" }, writes)))._unsafeUnwrap()
+
+      const lockBefore = writes[lockfilePath]
+      const locked = JSON.parse(lockBefore).sideloads[0].contentHash
+
+      const error = (await executeCommand(toRuntime(true, { "src/Html.elm": "changed" }, writes)))._unsafeUnwrapErr()
+      expect(error).toEqual({
+        type: "lockfileMismatch",
+        mismatches: [
+          {
+            packageName: "elm/html",
+            version: "1.0.0",
+            locked: { resolvedCommit: null, contentHash: locked },
+            resolved: { resolvedCommit: null, contentHash: expect.stringMatching(/^sha256-/) },
+          },
+        ],
+      })
+      expect(writes[lockfilePath]).toBe(lockBefore)
+    })
+
+    it("should check the lock in a frozen dry run too", async () => {
+      const writes: Record<string, string> = {}
+      ;(await executeCommand(toRuntime(false, { "src/Html.elm": "bbb" }, writes)))._unsafeUnwrap()
+
+      const runtime = toRuntime(true, { "src/Html.elm": "changed" }, writes, "dry-run")
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+      expect(error).toMatchObject({ type: "lockfileMismatch" })
+    })
+
+    it("should succeed in frozen mode when the source still matches", async () => {
+      const writes: Record<string, string> = {}
+      ;(await executeCommand(toRuntime(false, { "src/Html.elm": "bbb" }, writes)))._unsafeUnwrap()
+
+      const result = (await executeCommand(toRuntime(true, { "src/Html.elm": "bbb" }, writes)))._unsafeUnwrap()
+      expect(result.changes).toHaveLength(1)
+    })
+
+    it("should fail in frozen mode when there is no lockfile", async () => {
+      const error = (await executeCommand(toRuntime(true, {}, {})))._unsafeUnwrapErr()
+      expect(error).toBe("lockfileNotFound")
+    })
+
+    it("should fail in frozen mode when the lockfile is malformed", async () => {
+      const truncated = { [lockfilePath]: '{"lockfileVersion": 1, "sideloads": [' }
+      expect((await executeCommand(toRuntime(true, {}, truncated)))._unsafeUnwrapErr()).toBe("invalidLockfile")
+
+      const edited = { [lockfilePath]: JSON.stringify({ lockfileVersion: 1 }) }
+      expect((await executeCommand(toRuntime(true, {}, edited)))._unsafeUnwrapErr()).toEqual({
+        type: "invalidLockfileSchema",
+        issues: [{ path: "$.sideloads", expected: "an array", found: "nothing" }],
+      })
+    })
+  })
+
+  describe("verify command", () => {
+    const mockConfig: SideloadConfig = {
+      version: 3,
+      elmJsonPaths: ["elm.json"],
+      compiler: "elm",
+      requireElmHome: false,
+      sideloads: [
+        {
+          originalPackageName: "elm/html",
+          originalPackageVersion: "1.0.0",
+          sideloadedPackage: { type: "relative", path: "../html" },
+        },
+      ],
+    }
+    const sourceDir = "/test/html"
+    const packageDir = "/test/elm/0.19.1/packages/elm/html/1.0.0"
+
+    const toRuntime = (trees: Record<string, Record<string, string>>) =>
+      createTestRuntime(
+        { type: "verify" },
+        {},
+        {
+          readFile: (path: string) =>
+            path.endsWith("elm.sideload.json")
+              ? okAsync(JSON.stringify(mockConfig))
+              : errAsync("fileNotFound" as const),
+          exists: (path: string) => okAsync(path in trees),
+          listFilesRecursive: (dir: string) => okAsync(Object.keys(trees[dir])),
+          hashFile: (filePath: string) => {
+            const dir = Object.keys(trees).find((d) => filePath.startsWith(d + "/"))!
+            return okAsync(trees[dir][path.relative(dir, filePath)])
+          },
+        },
+        mockUserIO
+      )
+
+    it("should pass when the installed package matches its source, ignoring generated files", async () => {
+      const runtime = toRuntime({
+        [sourceDir]: { "elm.json": "a", "src/Html.elm": "b" },
+        [packageDir]: { "elm.json": "a", "src/Html.elm": "b", ".elm-sideload": "", "artifacts.dat": "z" },
+      })
+
+      const result = (await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(result.message).toContain("elm/html 1.0.0: ok")
+    })
+
+    it("should fail when files were added, removed, or modified", async () => {
+      const runtime = toRuntime({
+        [sourceDir]: { "elm.json": "a", "src/Html.elm": "b", "src/Html/Lazy.elm": "c" },
+        [packageDir]: { "elm.json": "a", "src/Html.elm": "edited", "src/Extra.elm": "d" },
+      })
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      expect(error).toEqual({
+        type: "sideloadDrift",
+        drifts: [
+          {
+            packageName: "elm/html",
+            version: "1.0.0",
+            missing: false,
+            added: ["src/Extra.elm"],
+            removed: ["src/Html/Lazy.elm"],
+            modified: ["src/Html.elm"],
+          },
+        ],
+      })
+    })
+
+    it("should fail when the package is missing from ELM_HOME", async () => {
+      const runtime = toRuntime({ [sourceDir]: { "elm.json": "a" } })
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      expect(error).toMatchObject({ type: "sideloadDrift", drifts: [{ packageName: "elm/html", missing: true }] })
+    })
+  })
+
+  describe("update command", () => {
+    const mockConfig: SideloadConfig = {
+      version: 3,
+      elmJsonPaths: ["elm.json"],
+      compiler: "elm",
+      requireElmHome: false,
+      sideloads: [
+        {
+          originalPackageName: "elm/virtual-dom",
+          originalPackageVersion: "1.0.4",
+          sideloadedPackage: {
+            type: "github",
+            url: "https://github.com/lydell/virtual-dom",
+            pinTo: { sha: "oldsha", branch: "safe" },
+          },
+        },
+        {
+          originalPackageName: "elm/html",
+          originalPackageVersion: "1.0.0",
+          sideloadedPackage: { type: "github", url: "https://github.com/lydell/html", pinTo: { sha: "abc123def456" } },
+        },
+      ],
+    }
+
+    const toRuntime = (
+      packageName: string | null,
+      writes: Record<string, string>,
+      gitIOCalls: string[],
+      config: SideloadConfig = mockConfig
+    ) => {
+      const runtime = createTestRuntime(
+        { type: "update", packageName },
+        {},
+        {
+          readFile: (path: string) =>
+            path.endsWith("elm.sideload.json") ? okAsync(JSON.stringify(config)) : errAsync("fileNotFound" as const),
+          writeFile: (path: string, content: string) => {
+            writes[path] = content
+            return okAsync(undefined)
+          },
+          exists: () => okAsync(true),
+        },
+        mockUserIO
+      )
+      runtime.gitIO = {
+        ...runtime.gitIO,
+        pull: (repoDir: string) => {
+          gitIOCalls.push(`pull:${repoDir}`)
+          return okAsync(undefined)
+        },
+        resolveBranchToSha: (repoDir: string, branch: string) => {
+          gitIOCalls.push(`resolveBranchToSha:${repoDir}:${branch}`)
+          return okAsync("newsha")
+        },
+        getCommitsBetween: (_repoDir: string, fromSha: string, toSha: string) =>
+          okAsync([`${toSha} second fix`, `${fromSha}+1 first fix`]),
+      }
+      return runtime
+    }
+
+    it("should move tracked branches to their new head and keep the branch", async () => {
+      const writes: Record<string, string> = {}
+      const gitIOCalls: string[] = []
+
+      const result = (await executeCommand(toRuntime(null, writes, gitIOCalls)))._unsafeUnwrap()
+
+      expect(gitIOCalls).toEqual([
+        "pull:/test/project/.elm.sideload.cache/lydell/virtual-dom",
+        "resolveBranchToSha:/test/project/.elm.sideload.cache/lydell/virtual-dom:safe",
+      ])
+      expect(result.message).toContain("oldsha -> newsha (safe)")
+      expect(result.message).toContain("newsha second fix")
+
+      const config = JSON.parse(writes["/test/project/elm.sideload.json"])
+      expect(config.sideloads[0].sideloadedPackage.pinTo).toEqual({ sha: "newsha", branch: "safe" })
+      expect(config.sideloads[1].sideloadedPackage.pinTo).toEqual({ sha: "abc123def456" })
+    })
+
+    it("should fetch a repository once for all of its sideloads, and pin each one to its own branch", async () => {
+      const writes: Record<string, string> = {}
+      const gitIOCalls: string[] = []
+      const tracking = (version: string, branch: string) => ({
+        originalPackageName: "elm/virtual-dom",
+        originalPackageVersion: version,
+        sideloadedPackage: {
+          type: "github" as const,
+          url: "https://github.com/lydell/virtual-dom",
+          pinTo: { sha: "oldsha", branch },
+        },
+      })
+      const runtime = toRuntime(null, writes, gitIOCalls, {
+        ...mockConfig,
+        sideloads: [tracking("1.0.3", "legacy"), tracking("1.0.4", "safe")],
+      })
+      runtime.gitIO = {
+        ...runtime.gitIO,
+        resolveBranchToSha: (repoDir: string, branch: string) => {
+          gitIOCalls.push(`resolveBranchToSha:${repoDir}:${branch}`)
+          return okAsync(`${branch}-head`)
+        },
+      }
+      ;(await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(gitIOCalls).toEqual([
+        "pull:/test/project/.elm.sideload.cache/lydell/virtual-dom",
+        "resolveBranchToSha:/test/project/.elm.sideload.cache/lydell/virtual-dom:legacy",
+        "resolveBranchToSha:/test/project/.elm.sideload.cache/lydell/virtual-dom:safe",
+      ])
+      const config = JSON.parse(writes["/test/project/elm.sideload.json"])
+      expect(
+        config.sideloads.map((sideload: SideloadConfig["sideloads"][number]) => sideload.sideloadedPackage)
+      ).toEqual([
+        { ...tracking("1.0.3", "legacy").sideloadedPackage, pinTo: { sha: "legacy-head", branch: "legacy" } },
+        { ...tracking("1.0.4", "safe").sideloadedPackage, pinTo: { sha: "safe-head", branch: "safe" } },
+      ])
+    })
+
+    it("should fail when the named sideload does not track a branch", async () => {
+      const error = (await executeCommand(toRuntime("elm/html", {}, [])))._unsafeUnwrapErr()
+      expect(error).toBe("noTrackedBranch")
+    })
+
+    it("should fail when the named package has no sideload", async () => {
+      const error = (await executeCommand(toRuntime("elm/browser", {}, [])))._unsafeUnwrapErr()
+      expect(error).toBe("sideloadNotConfigured")
+    })
+  })
+
+  describe("configure command with non-GitHub remotes", () => {
+    const mockElmJson = {
+      type: "application",
+      "source-directories": ["src"],
+      "elm-version": "0.19.1",
+      dependencies: {
+        direct: { "elm/html": "1.0.0" },
+        indirect: {},
+        "test-dependencies": { direct: {}, indirect: {} },
+      },
+    }
+
+    const toRuntime = (source: ConfigureInput, gitIOCalls: string[]) => {
+      const runtime = createTestRuntime(
+        { type: "configure", packageName: "elm/html", source, allowMismatch: false, link: false },
+        { hasElmJson: true, hasSideloadConfig: true },
+        {
+          readFile: (path: string) =>
+            path === "/test/project/elm.json"
+              ? okAsync(JSON.stringify(mockElmJson))
+              : path.endsWith("elm.json")
+                ? okAsync(toPackageElmJson("elm/html", "1.0.0"))
+                : okAsync(JSON.stringify({ elmJsonPath: "elm.json", requireElmHome: false, sideloads: [] })),
+          exists: (path: string) => okAsync(gitIOCalls.some((call) => call.endsWith(`:${path}`))),
+        },
+        mockUserIO
+      )
+      runtime.gitIO = {
+        ...runtime.gitIO,
+        clone: (url: string, targetDir: string) => {
+          gitIOCalls.push(`clone:${url}:${targetDir}`)
+          return okAsync(undefined)
+        },
+      }
+      return runtime
+    }
+
+    it("should cache an ssh remote on a self-hosted server under its host", async () => {
+      const gitIOCalls: string[] = []
+      const runtime = toRuntime(
+        { type: "git", url: "git@gitea.example.com:forks/html.git", pinTo: { sha: "abc123def456" } },
+        gitIOCalls
+      )
+
+      ;(await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(gitIOCalls).toEqual([
+        "clone:git@gitea.example.com:forks/html.git:/test/project/.elm.sideload.cache/_hosts/gitea.example.com/forks/html",
+      ])
+    })
+
+    it("should reject a non-GitHub remote passed to --github", async () => {
+      const runtime = toRuntime(
+        { type: "github", url: "https://gitlab.com/forks/html", pinTo: { sha: "abc123def456" } },
+        []
+      )
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      expect(error).toBe("invalidGithubUrl")
+    })
+  })
+
+  describe("sideloads from a subdirectory of a repository", () => {
+    const repoDir = "/test/project/.elm.sideload.cache/_hosts/gitlab.com/forks/elm-packages"
+    const worktreeDir = "/test/project/.elm.sideload.cache/_worktrees/_hosts/gitlab.com/forks/elm-packages/abc123def456"
+    const mockElmJson = {
+      type: "application",
+      "source-directories": ["src"],
+      "elm-version": "0.19.1",
+      dependencies: {
+        direct: { "elm/virtual-dom": "1.0.4" },
+        indirect: {},
+        "test-dependencies": { direct: {}, indirect: {} },
+      },
+    }
+
+    const toConfigureRuntime = (subdir: string, existingPaths: string[], writes: Record<string, string>) =>
+      createTestRuntime(
+        {
+          type: "configure",
+          packageName: "elm/virtual-dom",
+          source: { type: "git", url: "https://gitlab.com/forks/elm-packages", pinTo: { sha: "abc123def456" }, subdir },
+          allowMismatch: false,
+          link: false,
+        },
+        { hasElmJson: true, hasSideloadConfig: true },
+        {
+          readFile: (path: string) =>
+            path === "/test/project/elm.json"
+              ? okAsync(JSON.stringify(mockElmJson))
+              : path.endsWith("elm.json")
+                ? okAsync(toPackageElmJson("elm/virtual-dom", "1.0.4"))
+                : okAsync(JSON.stringify({ elmJsonPath: "elm.json", requireElmHome: false, sideloads: [] })),
+          writeFile: (path: string, content: string) => {
+            writes[path] = content
+            return okAsync(undefined)
+          },
+          exists: (path: string) => okAsync(path === projectElmJson || existingPaths.includes(path)),
+        },
+        mockUserIO
+      )
+
+    it("should store the subdirectory when it holds an elm.json at the pinned SHA", async () => {
+      const writes: Record<string, string> = {}
+      const runtime = toConfigureRuntime(
+        "packages/virtual-dom/",
+        [`${repoDir}/packages/virtual-dom/elm.json`, `${worktreeDir}/packages/virtual-dom/elm.json`],
+        writes
+      )
+
+      ;(await executeCommand(runtime))._unsafeUnwrap()
+
+      const config = JSON.parse(writes["/test/project/elm.sideload.json"])
+      expect(config.sideloads[0].sideloadedPackage.subdir).toBe("packages/virtual-dom")
+    })
+
+    it("should configure two packages from one repository, cloning it only once", async () => {
+      const gitIOCalls: string[] = []
+      const writes: Record<string, string> = {}
+      const twoPackagesElmJson = {
+        ...mockElmJson,
+        dependencies: { ...mockElmJson.dependencies, direct: { "elm/html": "1.0.0", "elm/virtual-dom": "1.0.4" } },
+      }
+      const toRuntime = (packageName: string, version: string) => {
+        const runtime = createTestRuntime(
+          {
+            type: "configure",
+            packageName,
+            source: {
+              type: "git",
+              url: "https://gitlab.com/forks/elm-packages",
+              pinTo: { sha: "abc123def456" },
+              subdir: `packages/${packageName.split("/")[1]}`,
+            },
+            allowMismatch: false,
+            link: false,
+          },
+          { hasElmJson: true, hasSideloadConfig: true },
+          {
+            readFile: (path: string) =>
+              path === "/test/project/elm.json"
+                ? okAsync(JSON.stringify(twoPackagesElmJson))
+                : path.endsWith("elm.json")
+                  ? okAsync(toPackageElmJson(packageName, version))
+                  : okAsync(
+                      writes["/test/project/elm.sideload.json"] ??
+                        JSON.stringify({ elmJsonPath: "elm.json", requireElmHome: false, sideloads: [] })
+                    ),
+            writeFile: (path: string, content: string) => {
+              writes[path] = content
+              return okAsync(undefined)
+            },
+            exists: (path: string) =>
+              okAsync(
+                path === projectElmJson ||
+                  path.endsWith("/elm.json") ||
+                  gitIOCalls.some((call) => call.endsWith(`:${path}`))
+              ),
+          },
+          mockUserIO
+        )
+        runtime.gitIO = {
+          ...runtime.gitIO,
+          clone: (url: string, targetDir: string) => {
+            gitIOCalls.push(`clone:${url}:${targetDir}`)
+            return okAsync(undefined)
+          },
+          pull: (repoDir: string) => {
+            gitIOCalls.push(`pull:${repoDir}`)
+            return okAsync(undefined)
+          },
+          addWorktree: (_repoDir: string, targetDir: string) => {
+            gitIOCalls.push(`addWorktree:${targetDir}`)
+            return okAsync(undefined)
+          },
+        }
+        return runtime
+      }
+
+      ;(await executeCommand(toRuntime("elm/virtual-dom", "1.0.4")))._unsafeUnwrap()
+      ;(await executeCommand(toRuntime("elm/html", "1.0.0")))._unsafeUnwrap()
+
+      expect(gitIOCalls).toEqual([
+        `clone:https://gitlab.com/forks/elm-packages:${repoDir}`,
+        `addWorktree:${worktreeDir}`,
+      ])
+      const config = JSON.parse(writes["/test/project/elm.sideload.json"])
+      expect(
+        config.sideloads.map((sideload: SideloadConfig["sideloads"][number]) => sideload.sideloadedPackage)
+      ).toEqual([
+        {
+          type: "git",
+          url: "https://gitlab.com/forks/elm-packages",
+          pinTo: { sha: "abc123def456" },
+          subdir: "packages/virtual-dom",
+        },
+        {
+          type: "git",
+          url: "https://gitlab.com/forks/elm-packages",
+          pinTo: { sha: "abc123def456" },
+          subdir: "packages/html",
+        },
+      ])
+    })
+
+    it("should fail when the subdirectory has no elm.json", async () => {
+      const runtime = toConfigureRuntime("packages/virtual-dom", [], {})
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      expect(error).toBe("noElmJsonInSubdir")
+    })
+
+    it("should reject a subdirectory that escapes the repository", async () => {
+      const runtime = toConfigureRuntime("../elsewhere", [], {})
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      expect(error).toBe("invalidSubdir")
+    })
+
+    it("should copy only the subdirectory on install", async () => {
+      const mockConfig: SideloadConfig = {
+        version: 3,
+        elmJsonPaths: ["elm.json"],
+        compiler: "elm",
+        requireElmHome: false,
+        sideloads: [
+          {
+            originalPackageName: "elm/virtual-dom",
+            originalPackageVersion: "1.0.4",
+            sideloadedPackage: {
+              type: "git",
+              url: "https://gitlab.com/forks/elm-packages",
+              pinTo: { sha: "abc123def456" },
+              subdir: "packages/virtual-dom",
+            },
+          },
+        ],
+      }
+      const copies: [string, string][] = []
+      const runtime = createTestRuntime(
+        { type: "install", mode: "always", frozen: false, watch: false, link: false, packages: [] },
+        { hasElmJson: true, hasSideloadConfig: true },
+        {
+          readFile: (path: string) =>
+            path.endsWith("elm.sideload.json")
+              ? okAsync(JSON.stringify(mockConfig))
+              : path === `${worktreeDir}/packages/virtual-dom/elm.json`
+                ? okAsync(toPackageElmJson("elm/virtual-dom", "1.0.4"))
+                : errAsync("fileNotFound" as const),
+          exists: (path: string) =>
+            okAsync(
+              path === projectElmJson || path === repoDir || path === `${worktreeDir}/packages/virtual-dom/elm.json`
+            ),
+          copyDirectoryRecursive: (source: string, target: string) => {
+            copies.push([source, target])
+            return okAsync(undefined)
+          },
+        },
+        mockUserIO
+      )
+
+      ;(await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(copies).toEqual([
+        [`${worktreeDir}/packages/virtual-dom`, "/test/elm/0.19.1/elm-sideload-staging/elm/virtual-dom/1.0.4"],
+      ])
+    })
+  })
+
+  describe("sideloads that share a repository", () => {
+    const cacheDir = "/test/project/.elm.sideload.cache"
+
+    const gitSideload = (name: string, url: string, sha: string, subdir?: string) => ({
+      originalPackageName: name,
+      originalPackageVersion: "1.0.0",
+      sideloadedPackage: { type: "git" as const, url, pinTo: { sha }, ...(subdir ? { subdir } : {}) },
+    })
+
+    // Git operations take a moment, so that overlapping ones can be observed
+    const slowly = <T>(value: T) =>
+      okAsync<void, never>(undefined)
+        .andThen(() => okAsync(new Promise((resolve) => setTimeout(resolve, 5))))
+        .map(() => value)
+
+    const toRuntime = (config: SideloadConfig, gitIOCalls: string[], inFlight: { current: number; max: number }) => {
+      const cloned = new Set<string>()
+      const track = (call: string) => {
+        gitIOCalls.push(call)
+        inFlight.current += 1
+        inFlight.max = Math.max(inFlight.max, inFlight.current)
+        return slowly(undefined).map(() => {
+          inFlight.current -= 1
+        })
+      }
+
+      const runtime = createTestRuntime(
+        { type: "install", mode: "always", frozen: false, watch: false, link: false, packages: [] },
+        { hasElmJson: true, hasSideloadConfig: true },
+        {
+          readFile: (path: string) => {
+            if (path.endsWith("elm.sideload.json")) {
+              return okAsync(JSON.stringify(config))
+            }
+            const sideload = config.sideloads.find((s) => path.includes(`/${s.originalPackageName.split("/")[1]}/`))
+            return sideload
+              ? okAsync(toPackageElmJson(sideload.originalPackageName, "1.0.0"))
+              : errAsync("fileNotFound" as const)
+          },
+          exists: (path: string) => okAsync(cloned.has(path) || path.endsWith("/elm.json")),
+        },
+        mockUserIO
+      )
+
+      runtime.gitIO = {
+        ...runtime.gitIO,
+        clone: (url: string, targetDir: string) => track(`clone:${targetDir}`).map(() => void cloned.add(targetDir)),
+        pull: (repoDir: string) => track(`pull:${repoDir}`),
+        addWorktree: (repoDir: string, targetDir: string, sha: string) => track(`worktree:${targetDir}:${sha}`),
+      }
+      return runtime
+    }
+
+    it("should clone a shared repository once and check out each pinned SHA into its own worktree", async () => {
+      const url = "https://github.com/forks/elm-packages"
+      const config: SideloadConfig = {
+        version: 3,
+        elmJsonPaths: ["elm.json"],
+        compiler: "elm",
+        requireElmHome: false,
+        sideloads: [
+          gitSideload("elm/html", url, "aaa111", "html"),
+          gitSideload("elm/virtual-dom", url, "bbb222", "virtual-dom"),
+        ],
+      }
+      const gitIOCalls: string[] = []
+      const inFlight = { current: 0, max: 0 }
+      const runtime = toRuntime(config, gitIOCalls, inFlight)
+
+      const result = (await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(gitIOCalls).toEqual([
+        `clone:${cacheDir}/forks/elm-packages`,
+        `worktree:${cacheDir}/_worktrees/forks/elm-packages/aaa111:aaa111`,
+        `worktree:${cacheDir}/_worktrees/forks/elm-packages/bbb222:bbb222`,
+      ])
+      expect(inFlight.max).toBe(1)
+      expect(result.changes?.map((change) => change.packageName)).toEqual(["elm/html", "elm/virtual-dom"])
+    })
+
+    it("should pull a cached repository once on every install", async () => {
+      const url = "https://github.com/forks/elm-packages"
+      const config: SideloadConfig = {
+        version: 3,
+        elmJsonPaths: ["elm.json"],
+        compiler: "elm",
+        requireElmHome: false,
+        sideloads: [
+          gitSideload("elm/html", url, "aaa111", "html"),
+          gitSideload("elm/virtual-dom", url, "bbb222", "virtual-dom"),
+        ],
+      }
+      const gitIOCalls: string[] = []
+      const runtime = toRuntime(config, gitIOCalls, { current: 0, max: 0 })
+      ;(await executeCommand(runtime))._unsafeUnwrap()
+      gitIOCalls.length = 0
+      ;(await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(gitIOCalls.filter((call) => !call.startsWith("worktree:"))).toEqual([
+        `pull:${cacheDir}/forks/elm-packages`,
+      ])
+    })
+
+    it("should limit how many repositories are worked on at once, and keep the configured order", async () => {
+      const names = ["a", "b", "c", "d", "e", "f"]
+      const config: SideloadConfig = {
+        version: 3,
+        elmJsonPaths: ["elm.json"],
+        compiler: "elm",
+        requireElmHome: false,
+        sideloads: names.map((name) => gitSideload(`forks/${name}`, `https://github.com/forks/${name}`, `${name}123`)),
+      }
+      const gitIOCalls: string[] = []
+      const inFlight = { current: 0, max: 0 }
+      const runtime = toRuntime(config, gitIOCalls, inFlight)
+
+      const result = (await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(gitIOCalls.filter((call) => call.startsWith("clone:"))).toHaveLength(6)
+      expect(inFlight.max).toBe(4)
+      expect(result.changes?.map((change) => change.packageName)).toEqual(names.map((name) => `forks/${name}`))
+    })
+  })
+
+  describe("archive sources", () => {
+    const mockConfig: SideloadConfig = {
+      version: 3,
+      elmJsonPaths: ["elm.json"],
+      compiler: "elm",
+      requireElmHome: false,
+      sideloads: [
+        {
+          originalPackageName: "elm/html",
+          originalPackageVersion: "1.0.0",
+          sideloadedPackage: { type: "archive", path: "vendor/html.zip", sha256: "checksum" },
+        },
+      ],
+    }
+    const extractDir = "/test/project/.elm.sideload.cache/_archives/checksum"
+
+    const toInstallRuntime = (archiveChecksum: string, extracted: Record<string, string[]>, copies: string[]) =>
+      createTestRuntime(
+        { type: "install", mode: "always", frozen: false, watch: false, link: false, packages: [] },
+        { hasElmJson: true, hasSideloadConfig: true },
+        {
+          readFile: (path: string) =>
+            path.endsWith("elm.sideload.json")
+              ? okAsync(JSON.stringify(mockConfig))
+              : path.endsWith("/elm.json")
+                ? okAsync(toPackageElmJson("elm/html", "1.0.0"))
+                : errAsync("fileNotFound" as const),
+          hashFile: (path: string) => okAsync(path === "/test/project/vendor/html.zip" ? archiveChecksum : ""),
+          readDirectory: (path: string) =>
+            path in extracted ? okAsync(extracted[path]) : errAsync("directoryNotFound" as const),
+          copyDirectoryRecursive: (source: string) => {
+            copies.push(source)
+            return okAsync(undefined)
+          },
+        },
+        mockUserIO
+      )
+
+    it("should record the archive's checksum on configure", async () => {
+      const writes: Record<string, string> = {}
+      const runtime = createTestRuntime(
+        {
+          type: "configure",
+          packageName: "elm/html",
+          source: { type: "archive", path: "vendor/html.zip" },
+          allowMismatch: false,
+          link: false,
+        },
+        { hasElmJson: true, hasSideloadConfig: true },
+        {
+          readFile: (path: string) =>
+            path === "/test/project/elm.json"
+              ? okAsync(
+                  JSON.stringify({
+                    type: "application",
+                    dependencies: {
+                      direct: { "elm/html": "1.0.0" },
+                      indirect: {},
+                      "test-dependencies": { direct: {}, indirect: {} },
+                    },
+                  })
+                )
+              : path.endsWith("elm.json")
+                ? okAsync(toPackageElmJson("elm/html", "1.0.0"))
+                : okAsync(JSON.stringify({ elmJsonPath: "elm.json", requireElmHome: false, sideloads: [] })),
+          writeFile: (path: string, content: string) => {
+            writes[path] = content
+            return okAsync(undefined)
+          },
+          hashFile: () => okAsync("checksum"),
+        },
+        mockUserIO
+      )
+
+      ;(await executeCommand(runtime))._unsafeUnwrap()
+
+      const config = JSON.parse(writes["/test/project/elm.sideload.json"])
+      expect(config.sideloads[0].sideloadedPackage).toEqual({
+        type: "archive",
+        path: "vendor/html.zip",
+        sha256: "checksum",
+      })
+    })
+
+    it("should strip a single top-level directory when installing", async () => {
+      const copies: string[] = []
+      const runtime = toInstallRuntime(
+        "checksum",
+        { [extractDir]: ["html-main"], [`${extractDir}/html-main`]: ["elm.json", "src"] },
+        copies
+      )
+
+      ;(await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(copies).toEqual([`${extractDir}/html-main`])
+    })
+
+    it("should use the extraction root when the archive has several top-level entries", async () => {
+      const copies: string[] = []
+      const runtime = toInstallRuntime("checksum", { [extractDir]: ["elm.json", "src"] }, copies)
+
+      ;(await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(copies).toEqual([extractDir])
+    })
+
+    it("should extract next to the checksum's directory and rename into place, reusing an earlier extraction", async () => {
+      const extractions: string[] = []
+      const renames: string[] = []
+      const existing = new Set<string>()
+      const runtime = toInstallRuntime("checksum", { [extractDir]: ["elm.json", "src"] }, [])
+      const exists = runtime.fileSystem.exists
+      runtime.fileSystem.exists = (path: string) => (path === extractDir ? okAsync(existing.has(path)) : exists(path))
+      runtime.fileSystem.extractArchive = (_archivePath: string, targetDir: string) => {
+        extractions.push(targetDir)
+        return okAsync(undefined)
+      }
+      runtime.fileSystem.rename = (source: string, target: string) => {
+        renames.push(`${source} -> ${target}`)
+        existing.add(target)
+        return okAsync(undefined)
+      }
+      ;(await executeCommand(runtime))._unsafeUnwrap()
+      ;(await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(extractions).toHaveLength(1)
+      expect(extractions[0]).toMatch(new RegExp(`^${extractDir}\\.partial-`))
+      expect(renames.filter((rename) => rename.endsWith(` -> ${extractDir}`))).toEqual([
+        `${extractions[0]} -> ${extractDir}`,
+      ])
+    })
+
+    it("should fail when the archive no longer matches its recorded checksum", async () => {
+      const copies: string[] = []
+      const runtime = toInstallRuntime("different", {}, copies)
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      expect(error).toEqual({
+        type: "sideloadFailed",
+        packageName: "elm/html",
+        version: "1.0.0",
+        error: "archiveChecksumMismatch",
+      })
+      expect(copies).toEqual([])
+    })
+  })
+
+  describe("patch-stack sources", () => {
+    const packageDir = "/test/elm/0.19.1/packages/elm/html/1.0.0"
+    const backupDir = "/test/elm/0.19.1/elm-sideload-backups/elm/html/1.0.0"
+    const patchedDir = "/test/project/.elm.sideload.cache/_patched/elm/html/1.0.0"
+
+    const toInstallRuntime = (existingPaths: string[], log: string[], failingPatch?: string) => {
+      const mockConfig: SideloadConfig = {
+        version: 3,
+        elmJsonPaths: ["elm.json"],
+        compiler: "elm",
+        requireElmHome: false,
+        sideloads: [
+          {
+            originalPackageName: "elm/html",
+            originalPackageVersion: "1.0.0",
+            sideloadedPackage: {
+              type: "patches",
+              base: { type: "official" },
+              patches: ["patches/one.patch", "patches/two.patch"],
+            },
+          },
+        ],
+      }
+      const existing = new Set(existingPaths)
+      const runtime = createTestRuntime(
+        { type: "install", mode: "always", frozen: false, watch: false, link: false, packages: [] },
+        { hasElmJson: true, hasSideloadConfig: true },
+        {
+          readFile: (path: string) =>
+            path.endsWith("elm.sideload.json")
+              ? okAsync(JSON.stringify(mockConfig))
+              : path === `${patchedDir}/elm.json`
+                ? okAsync(toPackageElmJson("elm/html", "1.0.0"))
+                : errAsync("fileNotFound" as const),
+          exists: (path: string) => okAsync(path === projectElmJson || existing.has(path)),
+          copyDirectoryRecursive: (source: string, target: string) => {
+            log.push(`copy:${source}:${target}`)
+            if (target === backupDir) {
+              existing.add(backupDir)
+            }
+            return okAsync(undefined)
+          },
+          rename: (source: string, target: string) => {
+            log.push(`rename:${source}:${target}`)
+            return okAsync(undefined)
+          },
+        },
+        mockUserIO
+      )
+      runtime.gitIO = {
+        ...runtime.gitIO,
+        applyPatch: (targetDir: string, patchFile: string) => {
+          log.push(`applyPatch:${targetDir}:${patchFile}`)
+          return patchFile === failingPatch
+            ? errAsync({ type: "patchFailed" as const, patch: patchFile, hunk: "src/Html.elm:12", message: "" })
+            : okAsync(undefined)
+        },
+      }
+      return runtime
+    }
+
+    it("should back up the official package, then apply the patches to a copy of it in order", async () => {
+      const log: string[] = []
+      const runtime = toInstallRuntime([packageDir], log)
+
+      ;(await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(log).toEqual([
+        `copy:${packageDir}:${backupDir}`,
+        `copy:${backupDir}:${patchedDir}`,
+        `applyPatch:${patchedDir}:/test/project/patches/one.patch`,
+        `applyPatch:${patchedDir}:/test/project/patches/two.patch`,
+        `copy:${patchedDir}:/test/elm/0.19.1/elm-sideload-staging/elm/html/1.0.0`,
+        `rename:${packageDir}:/test/elm/0.19.1/elm-sideload-rollback/elm/html/1.0.0`,
+        `rename:/test/elm/0.19.1/elm-sideload-staging/elm/html/1.0.0:${packageDir}`,
+      ])
+    })
+
+    it("should stop at the first patch that no longer applies, without touching ELM_HOME", async () => {
+      const log: string[] = []
+      const runtime = toInstallRuntime([packageDir], log, "/test/project/patches/one.patch")
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      expect(error).toMatchObject({ type: "sideloadFailed", error: { type: "patchFailed", hunk: "src/Html.elm:12" } })
+      expect(log).not.toContain(`applyPatch:${patchedDir}:/test/project/patches/two.patch`)
+      expect(log.filter((entry) => entry.startsWith("rename:"))).toEqual([])
+    })
+
+    it("should refuse to patch when there is no pristine official package to start from", async () => {
+      const log: string[] = []
+      const runtime = toInstallRuntime([packageDir, `${packageDir}/.elm-sideload`], log)
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      expect(error).toEqual({
+        type: "sideloadFailed",
+        packageName: "elm/html",
+        version: "1.0.0",
+        error: "noPristineOfficialPackage",
+      })
+    })
+
+    it("should fail to configure when a patch file does not exist", async () => {
+      const runtime = createTestRuntime(
+        {
+          type: "configure",
+          packageName: "elm/html",
+          source: { type: "patches", base: { type: "official" }, patches: ["patches/missing.patch"] },
+          allowMismatch: false,
+          link: false,
+        },
+        { hasElmJson: true, hasSideloadConfig: true },
+        {},
+        mockUserIO
+      )
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      expect(error).toBe("patchNotFound")
+    })
+  })
+
+  describe("sideload package validation", () => {
+    const mockElmJson = {
+      type: "application",
+      "source-directories": ["src"],
+      "elm-version": "0.19.1",
+      dependencies: {
+        direct: { "elm/html": "1.0.0" },
+        indirect: {},
+        "test-dependencies": { direct: {}, indirect: {} },
+      },
+    }
+
+    const toInstallRuntime = (sourceElmJson: string | null, allowMismatch: boolean, installed: string[]) => {
+      const mockConfig: SideloadConfig = {
+        version: 3,
+        elmJsonPaths: ["elm.json"],
+        compiler: "elm",
+        requireElmHome: false,
+        sideloads: [
+          {
+            originalPackageName: "elm/html",
+            originalPackageVersion: "1.0.0",
+            sideloadedPackage: { type: "relative", path: "../html" },
+            ...(allowMismatch ? { allowMismatch: true } : {}),
+          },
+        ],
+      }
+      return createTestRuntime(
+        { type: "install", mode: "always", frozen: false, watch: false, link: false, packages: [] },
+        { hasElmJson: true, hasSideloadConfig: true },
+        {
+          readFile: (path: string) =>
+            path.endsWith("elm.sideload.json")
+              ? okAsync(JSON.stringify(mockConfig))
+              : path === "/test/html/elm.json" && sourceElmJson !== null
+                ? okAsync(sourceElmJson)
+                : errAsync("fileNotFound" as const),
+          rename: (_source: string, target: string) => {
+            installed.push(target)
+            return okAsync(undefined)
+          },
+        },
+        mockUserIO
+      )
+    }
+
+    const toConfigureRuntime = (sourceElmJson: string, allowMismatch: boolean, writes: Record<string, string>) =>
+      createTestRuntime(
+        {
+          type: "configure",
+          packageName: "elm/html",
+          source: { type: "relative", path: "../html" },
+          allowMismatch,
+          link: false,
+        },
+        { hasElmJson: true, hasSideloadConfig: true },
+        {
+          readFile: (path: string) =>
+            path === "/test/project/elm.json"
+              ? okAsync(JSON.stringify(mockElmJson))
+              : path === "/test/html/elm.json"
+                ? okAsync(sourceElmJson)
+                : okAsync(JSON.stringify({ elmJsonPath: "elm.json", requireElmHome: false, sideloads: [] })),
+          writeFile: (path: string, content: string) => {
+            writes[path] = content
+            return okAsync(undefined)
+          },
+        },
+        mockUserIO
+      )
+
+    it("should refuse to install a sideload whose elm.json names a different package", async () => {
+      const copies: string[] = []
+      const runtime = toInstallRuntime(toPackageElmJson("lydell/html", "1.0.0"), false, copies)
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      expect(error).toEqual({
+        type: "sideloadFailed",
+        packageName: "elm/html",
+        version: "1.0.0",
+        error: "sideloadPackageMismatch",
+      })
+      expect(copies).toEqual([])
+    })
+
+    it("should refuse to install a sideload whose elm.json has a different version", async () => {
+      const runtime = toInstallRuntime(toPackageElmJson("elm/html", "2.0.0"), false, [])
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      expect(error).toEqual({
+        type: "sideloadFailed",
+        packageName: "elm/html",
+        version: "1.0.0",
+        error: "sideloadPackageMismatch",
+      })
+    })
+
+    it("should refuse to install a sideload whose elm-version range excludes 0.19.1", async () => {
+      const runtime = toInstallRuntime(toPackageElmJson("elm/html", "1.0.0", "0.19.0 <= v < 0.19.1"), false, [])
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      expect(error).toEqual({
+        type: "sideloadFailed",
+        packageName: "elm/html",
+        version: "1.0.0",
+        error: "sideloadPackageMismatch",
+      })
+    })
+
+    it("should accept an exact elm-version of 0.19.1", async () => {
+      const installed: string[] = []
+      const runtime = toInstallRuntime(toPackageElmJson("elm/html", "1.0.0", "0.19.1"), false, installed)
+
+      ;(await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(installed).toEqual(["/test/elm/0.19.1/packages/elm/html/1.0.0"])
+    })
+
+    it("should refuse to install a source that is not an Elm package", async () => {
+      const application = JSON.stringify(mockElmJson)
+
+      const notAPackage = {
+        type: "sideloadFailed",
+        packageName: "elm/html",
+        version: "1.0.0",
+        error: "notAnElmPackage",
+      }
+
+      expect((await executeCommand(toInstallRuntime(application, false, [])))._unsafeUnwrapErr()).toEqual(notAPackage)
+      expect((await executeCommand(toInstallRuntime(null, false, [])))._unsafeUnwrapErr()).toEqual(notAPackage)
+    })
+
+    it("should install a mismatched sideload that was configured with --allow-mismatch", async () => {
+      const installed: string[] = []
+      const logged: string[] = []
+      const runtime = toInstallRuntime(toPackageElmJson("lydell/html", "2.0.0"), true, installed)
+
+      ;(
+        await executeCommand({ ...runtime, userIO: { ...runtime.userIO, log: (line) => logged.push(line) } })
+      )._unsafeUnwrap()
+
+      expect(installed).toEqual(["/test/elm/0.19.1/packages/elm/html/1.0.0"])
+      expect(logged).toContainEqual(expect.stringContaining("its name is lydell/html, but it replaces elm/html"))
+    })
+
+    it("should refuse to configure a mismatched sideload", async () => {
+      const writes: Record<string, string> = {}
+      const runtime = toConfigureRuntime(toPackageElmJson("lydell/html", "1.0.0"), false, writes)
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      expect(error).toBe("sideloadPackageMismatch")
+      expect(writes).toEqual({})
+    })
+
+    it("should record the override when configuring a mismatched sideload with --allow-mismatch", async () => {
+      const writes: Record<string, string> = {}
+      const runtime = toConfigureRuntime(toPackageElmJson("lydell/html", "1.0.0"), true, writes)
+
+      ;(await executeCommand(runtime))._unsafeUnwrap()
+
+      const config = JSON.parse(writes["/test/project/elm.sideload.json"])
+      expect(config.sideloads[0].allowMismatch).toBe(true)
+    })
+  })
+
+  describe("API compatibility", () => {
+    const packageDir = "/test/elm/0.19.1/packages/elm/html/1.0.0"
+    const backupDir = "/test/elm/0.19.1/elm-sideload-backups/elm/html/1.0.0"
+    const mockConfig: SideloadConfig = {
+      version: 3,
+      elmJsonPaths: ["elm.json"],
+      compiler: "elm",
+      requireElmHome: false,
+      sideloads: [
+        {
+          originalPackageName: "elm/html",
+          originalPackageVersion: "1.0.0",
+          sideloadedPackage: { type: "relative", path: "../html" },
+        },
+      ],
+    }
+
+    const toPackageFiles = (dir: string, exposedModules: string[], htmlModule: string): Record<string, string> => ({
+      [`${dir}/elm.json`]: JSON.stringify({
+        type: "package",
+        name: "elm/html",
+        version: "1.0.0",
+        "elm-version": "0.19.0 <= v < 0.20.0",
+        "exposed-modules": exposedModules,
+      }),
+      [`${dir}/src/Html.elm`]: htmlModule,
+    })
+
+    const officialHtml =
+      "module Html exposing (text, div)\n\ntext : String -> Html msg\n\ndiv : List (Html msg) -> Html msg\n"
+
+    const toRuntime = (command: Command, files: Record<string, string>, existingPaths: string[], copies: string[]) =>
+      createTestRuntime(
+        command,
+        { hasElmJson: true, hasSideloadConfig: true },
+        {
+          readFile: (path: string) =>
+            path.endsWith("elm.sideload.json")
+              ? okAsync(JSON.stringify(mockConfig))
+              : path in files
+                ? okAsync(files[path])
+                : errAsync("fileNotFound" as const),
+          exists: (path: string) => okAsync(path === projectElmJson || existingPaths.includes(path)),
+          copyDirectoryRecursive: (_source: string, target: string) => {
+            copies.push(target)
+            return okAsync(undefined)
+          },
+        },
+        mockUserIO
+      )
+
+    it("should fail and report removed and changed API", async () => {
+      const files = {
+        ...toPackageFiles(packageDir, ["Html", "Html.Lazy"], officialHtml),
+        ...toPackageFiles(
+          "/test/html",
+          ["Html", "Html.Keyed"],
+          "module Html exposing (text, span)\n\ntext : String -> Html Never\n\nspan : List (Html msg) -> Html msg\n"
+        ),
+      }
+      const runtime = toRuntime({ type: "compat", packageName: "elm/html" }, files, [packageDir], [])
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      expect(error).toMatchObject({
+        type: "apiIncompatible",
+        compatibility: {
+          packageName: "elm/html",
+          version: "1.0.0",
+          removedModules: ["Html.Lazy"],
+          addedModules: ["Html.Keyed"],
+        },
+      })
+    })
+
+    it("should succeed when the sideload only adds API", async () => {
+      const files = {
+        ...toPackageFiles(packageDir, ["Html"], officialHtml),
+        ...toPackageFiles(
+          "/test/html",
+          ["Html", "Html.Keyed"],
+          officialHtml.replace("(text, div)", "(text, div, span)") + "\nspan : List (Html msg) -> Html msg\n"
+        ),
+      }
+      const runtime = toRuntime({ type: "compat", packageName: "elm/html" }, files, [packageDir], [])
+
+      const result = (await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(result.compatibility).toEqual({
+        packageName: "elm/html",
+        version: "1.0.0",
+        removedModules: [],
+        addedModules: ["Html.Keyed"],
+        changedModules: [{ moduleName: "Html", removed: [], added: ["span"], changed: [] }],
+      })
+    })
+
+    it("should compare against the backup once a sideload has replaced the official package", async () => {
+      const files = {
+        ...toPackageFiles(backupDir, ["Html"], officialHtml),
+        ...toPackageFiles(packageDir, ["Html", "Html.Lazy"], officialHtml),
+        ...toPackageFiles("/test/html", ["Html"], officialHtml),
+      }
+      const runtime = toRuntime(
+        { type: "compat", packageName: "elm/html" },
+        files,
+        [packageDir, `${packageDir}/.elm-sideload`, backupDir],
+        []
+      )
+
+      const result = (await executeCommand(runtime))._unsafeUnwrap()
+
+      expect(result.compatibility?.removedModules).toEqual([])
+      expect(result.compatibility?.changedModules).toEqual([])
+    })
+
+    it("should fail when there is no official package to compare against", async () => {
+      const runtime = toRuntime({ type: "compat", packageName: "elm/html" }, {}, [], [])
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      expect(error).toBe("noPristineOfficialPackage")
+    })
+
+    it("should fail for a package without a configured sideload", async () => {
+      const runtime = toRuntime({ type: "compat", packageName: "elm/json" }, {}, [], [])
+
+      const error = (await executeCommand(runtime))._unsafeUnwrapErr()
+
+      expect(error).toBe("sideloadNotConfigured")
+    })
+
+    it("should only warn about breaking API changes during install", async () => {
+      const files = {
+        ...toPackageFiles(packageDir, ["Html", "Html.Lazy"], officialHtml),
+        ...toPackageFiles("/test/html", ["Html"], officialHtml),
+      }
+      const copies: string[] = []
+      const runtime = toRuntime(
+        { type: "install", mode: "always", frozen: false, watch: false, link: false, packages: [] },
+        files,
+        [packageDir],
+        copies
+      )
+
+      const logged: string[] = []
+
+      ;(
+        await executeCommand({ ...runtime, userIO: { ...runtime.userIO, log: (line) => logged.push(line) } })
+      )._unsafeUnwrap()
+
+      expect(copies).toEqual(["/test/elm/0.19.1/elm-sideload-staging/elm/html/1.0.0", backupDir])
+      expect(logged).toContainEqual(
+        expect.stringContaining("Warning: this sideload removes or changes API that the official package exposes")
+      )
+    })
+  })
 })
@@ -1,5 +1,17 @@
 import { Result, ResultAsync, ok, err, okAsync, errAsync } from "neverthrow"
 import * as path from "path"
+import { createHash, randomUUID } from "crypto"
+import { parseRemoteUrl, isGithubRemote, toCacheKey } from "./remoteUrl"
+import { parseSideloadConfig, parseSideloadLock, currentConfigVersion, normalizeSubdir } from "./configSchema"
+import { parseModuleApi, flattenExposedModules, diffNames, diffModuleApis, ModuleApi } from "./elmApi"
+import { diagnose } from "./diagnostics"
+import {
+  knownArtifactFiles,
+  toPackagesPath,
+  toStaleArtifactFiles,
+  toProjectCachePaths as toCompilerCachePaths,
+  detectCompiler,
+} from "./compilers"
 import {
   Runtime,
   Command,
@@ -13,8 +25,77 @@ import {
   AppliedChange,
   ConfigureInput,
   ConfigureSource,
+  InstallPlanEntry,
+  InstalledState,
+  PackageStatus,
+  SideloadSource,
+  BaseSideloadSource,
+  BaseConfigureInput,
+  SideloadLock,
+  LockedSideload,
+  PackageElmJson,
+  ApiCompatibility,
+  PackageDrift,
+  ModuleApiChanges,
+  InstallRolledBackError,
+  Compiler,
+  ExportFormat,
+  DoctorCheck,
+  LockMismatch,
 } from "./types"
 
+// A sideload's files on disk, ready to be copied into ELM_HOME
+type PreparedSource = {
+  sourcePath: string
+  resolvedCommit: string | null
+}
+
+// A sideload whose source is ready to be staged, with what the lockfile should say about it
+type ResolvedSideload = {
+  sideload: SideloadRegistration
+  sourcePath: string
+  locked: LockedSideload
+}
+
+type StagedSideload = {
+  change: AppliedChange
+  locked: LockedSideload
+  staged: StagedPackage
+}
+
+// A package copied next to ELM_HOME, ready to be moved into `targetDir`
+type StagedPackage = {
+  packageName: string
+  version: string
+  stagingDir: string
+  targetDir: string
+  backupDir: string
+  rollbackDir: string
+}
+
+// `hadPrevious` says whether there was a package in `targetDir` that was moved to `rollbackDir` to make room
+type SwappedPackage = StagedPackage & { hadPrevious: boolean }
+
+type GitSideloadSource = Extract<BaseSideloadSource, { type: "github" | "git" }>
+
+// Install pulls an existing clone every time, as it always has; the other commands only need the pinned SHAs, so they
+// leave the network alone unless one is missing
+type FetchPolicy = "always" | "ifMissing"
+
+// One entry of `zokka-package-overrides` in an elm.json, pointing Zokka from the official package to the sideload
+type ZokkaOverride = {
+  "original-package-name": string
+  "original-package-version": string
+  "override-package-name": string
+  "override-package-version": string
+}
+
+// git worktree, which every git source is checked out with, first shipped in git 2.5
+const minimumGitVersion = "2.5.0"
+
+// Enough to keep a few clones and fetches going without spawning a git process for every sideload in a large config
+const maxConcurrentRepositories = 4
+
 const helpText: string = `
 elm-sideload: congratulations, you can write javascript again
 
@@ -34,12 +115,31 @@ getting started:
 
       If you already have an 'elm.sideload.json', this command will signal adversity and exit.
 
+      The 'elmJsonPaths' list in your 'elm.sideload.json' names the 'elm.json' of every Elm project that the sideloads apply to,
+      relative to the folder that holds 'elm.sideload.json'. 'init' starts it with the 'elm.json' in the current folder; for a
+      repository with several Elm projects, list them all, e.g. '["app/elm.json", "admin/elm.json", "review/elm.json"]'.
+      'configure' then records a sideload for every version of the package that those projects use, and 'install' and 'unload'
+      cover all of those versions, and bust the 'elm-stuff' next to each 'elm.json'.
+
+      The 'compiler' setting in your 'elm.sideload.json' is one of "elm", "lamdera" or "zokka", and decides which packages
+      directory in $ELM_HOME sideloads go into, which build artifacts are deleted from a sideloaded package, and which
+      project caches are cleared. 'init' picks Zokka if your 'elm.json' has 'zokka-package-overrides', Lamdera if your app
+      depends on a 'lamdera/' package, and elm otherwise.
+
 updating your sideload configuration:
 
   elm-sideload configure <author/package> [flags]
       Update your 'elm.sideload.json' to add a "sideloaded" package to overwrite the package specified in the arguments,
       using [flags] to specify a source for the sideloaded package. The 'configure' command will look for a reference to the package-to-overwrite in
-      your 'elm.json', and will fail if it can't find one.
+      your 'elm.json' files, and will fail if it can't find one.
+
+      Both 'configure' and 'install' read the sideloaded package's own 'elm.json', and fail unless it is a package whose
+      name and version are the same as the package it replaces, and whose elm-version range includes 0.19.1.
+
+  elm-sideload configure <author/package> [flags] --allow-mismatch
+      Accept a sideload whose 'elm.json' names a different package or version, or a different Elm version, such as a renamed
+      fork; the override is saved in your 'elm.sideload.json', so 'install' will warn instead of failing. A source without
+      a package 'elm.json' is always rejected.
 
   elm-sideload configure <author/package> --github <github-url> [flags]
       Configure your 'elm.sideload.json' with an entry for a "sideloaded" package from a GitHub URL, using flags to specify what you want to "pin" to,
@@ -53,24 +153,143 @@ updating your sideload configuration:
       Install from a Github URL. Pin to a specific SHA. Fails if it can't find the repo by URL,
       or if it can't find a commit with that SHA on the repo.
 
+  elm-sideload configure <author/package> --git <git-url> [--branch <branch-name> | --sha <sha-value>]
+      Same as --github, but for any git remote: self-hosted servers like GitLab or Gitea (including subgroups),
+      SSH remotes like 'git@example.com:owner/repo.git', 'file://' URLs, or a path to a local (bare) repository.
+
+  elm-sideload configure <author/package> (--github <github-url> | --git <git-url>) [flags] --subdir <folder-path>
+      For packages that live in a subdirectory of a larger repository (a monorepo), such as 'packages/virtual-dom'.
+      Only that folder is copied into your ELM_HOME; fails if there is no 'elm.json' in it at the pinned SHA.
+
   elm-sideload configure <author/package> --relative <relative-folder-path>
       Install from a relative folder path. The folder path that you use as an argument should be the folder that has
       the sideloaded package's 'elm.json' _in it_.
 
+  elm-sideload configure <author/package> --relative <relative-folder-path> --link
+      Instead of copying the folder into your ELM_HOME on every install, replace the package's 'src' folder there with a symlink
+      to the folder's own 'src'. The 'elm.json' and everything else is still copied. Edits to the source then show up without
+      reinstalling; only the compilation cache has to be busted, which 'install --watch' does for you.
+
+  elm-sideload configure <author/package> --patch <relative-patch-path> [--patch <another-patch-path> ...] [source flags]
+      Instead of maintaining a fork, apply '.patch' or '.diff' files (as produced by 'git diff' or 'git format-patch', with paths
+      relative to the package root) in order on top of a base. Without any other source flags, the base is the official
+      package in your ELM_HOME, which is backed up first so that 'unload' can always revert to it; with --github, --git,
+      --relative, or --archive, the patches apply on top of that source instead. Install fails, naming the file and line of
+      the hunk, if a patch no longer applies.
+
+  elm-sideload configure <author/package> --archive <relative-archive-path>
+      Install from a '.tar.gz', '.tar', or '.zip' archive of the package, such as a build artifact or GitHub's "download zip".
+      The archive's SHA-256 checksum is recorded in your 'elm.sideload.json', and install fails if the archive changes.
+      If everything in the archive is inside a single top-level folder, that folder is treated as the package root.
+
+  elm-sideload update [author/package]
+      For sideloads configured with --branch, fetches the latest changes, re-resolves the branch to its current head,
+      shows the commits between the old and new pins, and rewrites your 'elm.sideload.json' with the new SHA. Without a
+      package name, updates every sideload that tracks a branch. Run 'elm-sideload install' afterwards to apply the update.
+
 applying your sideload configuration:
 
+  elm-sideload install
+      Builds a plan for every sideload in your 'elm.sideload.json' - its source, the pinned SHA, the target directory in your ELM_HOME,
+      and whether that directory is currently the official package or already holds a sideload - and prints it. You will then be
+      prompted to apply all of the sideloads, pick which ones to apply one at a time, or abort without changing anything.
+
   elm-sideload install --always
       Apply the 'elm.sideload.json' without asking for permission. Verifies that all sources and destinations exist and verifies SHAs if necessary,
       and fails if any checks fail.
 
+      Every install is all-or-nothing: each sideload is first copied into 'elm-sideload-staging' next to your ELM_HOME packages, and only once
+      all of them are ready are they moved into place. If moving one of them, busting the compilation cache, or writing the lockfile fails,
+      the packages already moved are rolled back, and the error lists them.
+
   elm-sideload install --dry-run
       Does everything _except_ overwrite files at the end; doesn't prompt for input.
 
+  elm-sideload install --watch
+      Combine with 'install' or 'install --always'. After installing, keeps watching the folders of sideloads configured with
+      --relative: whenever files change, copies just those files into your ELM_HOME, deletes the package's stale 'artifacts.dat',
+      and busts each project's 'elm-stuff', printing one line per sync. Press Ctrl-C to stop.
+
+  elm-sideload install --link
+      Combine with any of the above. Links every sideload configured with --relative, as if each had been configured with --link.
+      Other sources are copied as usual.
+
+  elm-sideload install --frozen
+      Combine with any of the above. Every install writes 'elm.sideload.lock.json', recording the resolved commit and a content hash
+      of the files copied for each sideload; with --frozen, install fails if a sideload's source no longer produces exactly
+      what the lockfile recorded, before installing any of them; with --dry-run too, it only checks. Commit the lockfile
+      alongside your 'elm.sideload.json'.
+
+  elm-sideload install <author/package>... [flags]
+      Combine with any of the above. Only installs the sideloads for the packages you name, and leaves the others as they are.
+      Names can be globs, where '*' stands for any part of a name: quote them, as in 'elm-sideload install "elm/*"'. A name
+      that matches none of the sideloads in your 'elm.sideload.json' is an error that lists the ones that are there.
+
 undoing your sideload configuration:
 
   elm-sideload unload
-      Deletes any sideloaded packages referenced in your 'elm.sideload.json' so that the Elm compiler can
-      re-download them from the official packages repository.
+      Restores any sideloaded packages referenced in your 'elm.sideload.json' from the backup of the official package that
+      'install' took before overwriting it. If there is no backup, deletes the sideloaded package so that the Elm compiler can
+      re-download it from the official packages repository. For linked sideloads, only the link is removed; the source folder
+      it points at is never touched.
+
+  elm-sideload unload <author/package>...
+      Only unloads the sideloads for the packages you name, which can be globs just like for 'install'.
+
+  elm-sideload remove <author/package> [--prune]
+      Takes the package's sideload out of your 'elm.sideload.json' (every version of it, if your Elm projects use several),
+      restores the official package in your ELM_HOME the way 'unload' does, and busts 'elm-stuff'. Other sideloads are left
+      as they are.
+
+      --prune: also deletes the package's cached clone from '.elm.sideload.cache', unless another sideload comes from the
+      same repository.
+
+checking what is currently applied:
+
+  elm-sideload status
+      Reports, for every sideload in your 'elm.sideload.json', whether the package in your ELM_HOME is currently the sideload
+      (copied or linked), the official package, or missing. Also lists any sideloaded packages in your ELM_HOME that your 'elm.sideload.json'
+      no longer mentions.
+
+  elm-sideload verify
+      Compares every sideloaded package in your ELM_HOME, file by file, against its source: the cached git checkout at the
+      pinned SHA, or the relative source folder. Reports added, removed, and modified files for each package, and exits
+      with a non-zero status if anything has drifted - handy as a pre-build step.
+
+  elm-sideload compat <author/package>
+      Compares the API of a configured sideload against the official package in your ELM_HOME (or its backup, once the
+      sideload has replaced it): the 'exposed-modules' of both 'elm.json' files, and the exposed declarations of each module,
+      along with their type annotations. Reports removed, added, and changed modules and declarations, and exits with a
+      non-zero status if anything was removed or changed, since other packages built against the official API may no longer
+      compile. 'install' prints the same report as a warning whenever a sideload removes or changes API.
+
+diagnosing problems:
+
+  elm-sideload doctor
+      Checks the whole sideload environment in one run, printing pass, warn, or fail for each check with a hint on how to fix
+      it: that git is available and new enough, that 'elm.sideload.json' can be read, that 'requireElmHome' is satisfied in
+      this shell, that your ELM_HOME packages directory exists and is writable, that every configured package version is in
+      it, that no cached checkout has uncommitted changes, that no sideloaded package has build artifacts from older code,
+      that no project's 'elm-stuff' predates the installed sideloads, and that '.elm.sideload.cache' is in your '.gitignore'.
+      Exits with a non-zero status if any check fails; warnings alone don't.
+
+exporting to other tools:
+
+  elm-sideload export --format zokka
+      Translates your 'elm.sideload.json' into Zokka's own dependency overrides, so that a project built with Zokka can use
+      the sideloads without anything being written to ELM_HOME. Copies each sideload's files into
+      'zokka-packages/<author>/<package>/<version>' in the current folder, and writes a 'zokka-package-overrides' entry for
+      each sideload into every 'elm.json' that depends on the package it replaces. Entries for other packages are left alone,
+      so you can run it again whenever 'elm.sideload.json' changes. Make the 'zokka-packages' folder available from the
+      custom package repository that your Zokka setup uses.
+
+machine-readable output:
+
+  elm-sideload <command> --json
+      Works with every command. Prints a single JSON document on stdout: '{ "ok": true, "command": ..., "result": ... }' with
+      the command's result (such as the applied changes for 'install' and 'unload', or the package states for 'status'), or
+      '{ "ok": false, "command": ..., "error": ..., "diagnostic": ... }' with the structured error and its explanation. Progress
+      output and prompts go to stderr instead, so stdout can be piped straight into another program.
 `
 
 // =============================================================================
@@ -89,20 +308,36 @@ export function executeCommand(runtime: Runtime): ResultAsync<ExecutionResult, C
       return executeInit(runtime)
 
     case "configure":
-      const { packageName, source } = runtime.command
-      return executeConfigure(runtime, packageName, source)
+      const { packageName, source, allowMismatch, link } = runtime.command
+      return executeConfigure(runtime, packageName, source, allowMismatch, link)
+
+    case "update":
+      return executeUpdate(runtime, runtime.command.packageName)
 
     case "install":
-      const { mode } = runtime.command
-      if (mode === "interactive") {
-        throw new Error(
-          "Sorry, haven't gotten around to the interactive-mode install experience yet - use the `--always` flag for now, please."
-        )
-      }
-      return executeInstall(runtime, mode)
+      const { mode, frozen, watch } = runtime.command
+      return executeInstall(runtime, mode, frozen, watch, runtime.command.link, runtime.command.packages)
 
     case "unload":
-      return executeUnload(runtime)
+      return executeUnload(runtime, runtime.command.packages)
+
+    case "remove":
+      return executeRemove(runtime, runtime.command.packageName, runtime.command.prune)
+
+    case "status":
+      return executeStatus(runtime)
+
+    case "verify":
+      return executeVerify(runtime)
+
+    case "compat":
+      return executeCompat(runtime, runtime.command.packageName)
+
+    case "export":
+      return executeExport(runtime, runtime.command.format)
+
+    case "doctor":
+      return executeDoctor(runtime)
 
     default:
       const _: never = runtime.command
@@ -126,17 +361,34 @@ function executeInit(runtime: Runtime): ResultAsync<ExecutionResult, CommandErro
         ? errAsync("noElmJsonFound")
         : okAsync(undefined)
 
+  // A missing or unreadable elm.json is left for the compiler to complain about; until then, it's stock elm
+  const detectProjectCompiler = (): ResultAsync<Compiler, CommandError> =>
+    runtime.fileSystem
+      .readFile(path.join(runtime.environment.cwd, "elm.json"))
+      .map((content) => {
+        try {
+          return detectCompiler(JSON.parse(content))
+        } catch (_) {
+          return "elm" as const
+        }
+      })
+      .orElse(() => okAsync<Compiler, CommandError>("elm"))
+      .map((compiler) => {
+        runtime.userIO.log(`Detected the ${compiler} compiler; change "compiler" in elm.sideload.json if that's wrong`)
+        return compiler
+      })
+
   const promptForElmHome = (): ResultAsync<boolean, CommandError> => {
     const { elmHome } = runtime.environment
     let message: string
     switch (elmHome.type) {
       case "fromShellEnv":
         message = `An ELM_HOME was found at: ${elmHome.elmHome}\nShould elm-sideload require ELM_HOME to be set in all environments? (Y/n) `
-        console.log(`Reading ELM_HOME from shell environment: ${elmHome.elmHome}`)
+        runtime.userIO.log(`Reading ELM_HOME from shell environment: ${elmHome.elmHome}`)
         break
       case "fromOsDefault":
         message = `No ELM_HOME was found; defaulting to ${elmHome.elmHome} in this environment. \nShould elm-sideload require ELM_HOME to be set in all environments? (Y/n) `
-        console.log(`No ELM_HOME found in shell environment; using OS default: ${elmHome.elmHome}`)
+        runtime.userIO.log(`No ELM_HOME found in shell environment; using OS default: ${elmHome.elmHome}`)
         break
     }
 
@@ -145,8 +397,10 @@ function executeInit(runtime: Runtime): ResultAsync<ExecutionResult, CommandErro
     })
   }
 
-  const createConfig = (requireElmHome: boolean): SideloadConfig => ({
-    elmJsonPath: "elm.json",
+  const createConfig = (compiler: Compiler, requireElmHome: boolean): SideloadConfig => ({
+    version: currentConfigVersion,
+    elmJsonPaths: ["elm.json"],
+    compiler,
     requireElmHome,
     sideloads: [],
   })
@@ -173,7 +427,10 @@ function executeInit(runtime: Runtime): ResultAsync<ExecutionResult, CommandErro
       }))
   }
 
-  return validateInitConditions().andThen(promptForElmHome).map(createConfig).andThen(writeConfigAndCreateCache)
+  return validateInitConditions()
+    .andThen(detectProjectCompiler)
+    .andThen((compiler) => promptForElmHome().map((requireElmHome) => createConfig(compiler, requireElmHome)))
+    .andThen(writeConfigAndCreateCache)
 }
 
 // =============================================================================
@@ -183,49 +440,193 @@ function executeInit(runtime: Runtime): ResultAsync<ExecutionResult, CommandErro
 function executeConfigure(
   runtime: Runtime,
   packageName: string,
-  source: ConfigureInput
+  source: ConfigureInput,
+  allowMismatch: boolean,
+  link: boolean
 ): ResultAsync<ExecutionResult, CommandError> {
-  const validatePackageInElmJson = (elmJson: ElmJson): ResultAsync<ElmJson, CommandError> =>
-    checkPackageInElmJson(elmJson, packageName) ? okAsync(elmJson) : errAsync("packageNotFoundInElmJson")
+  // The Elm projects may depend on different versions of the package; each version gets a registration of its own,
+  // all with the same source
+  const createRegistrations = (
+    elmJsons: ElmJson[],
+    resolvedSource: ConfigureSource
+  ): Result<SideloadRegistration[], CommandError> => {
+    const versions = [
+      ...new Set(
+        elmJsons
+          .map((elmJson) => getPackageVersion(elmJson, packageName))
+          .filter((version): version is string => version !== null)
+      ),
+    ]
+
+    return versions.length > 0
+      ? ok(
+          versions.map((packageVersion) => ({
+            originalPackageName: packageName,
+            originalPackageVersion: packageVersion,
+            sideloadedPackage: resolvedSource,
+            ...(allowMismatch ? { allowMismatch: true } : {}),
+            ...(link ? { link: true } : {}),
+          }))
+        )
+      : err("packageNotFoundInElmJson")
+  }
 
-  const createRegistration = (
-    elmJson: ElmJson,
+  // Patches on top of the official package start from the package in ELM_HOME, which may not have been downloaded
+  // yet; install checks the patched result instead
+  const checkRegistration = (
     config: SideloadConfig,
-    resolvedSource: ConfigureSource
-  ): Result<SideloadConfig, CommandError> => {
-    const packageVersion = getPackageVersion(elmJson, packageName)
+    registration: SideloadRegistration
+  ): ResultAsync<void, CommandError> => {
+    const { sideloadedPackage } = registration
+    if (sideloadedPackage.type === "patches" && sideloadedPackage.base.type === "official") {
+      return okAsync(undefined)
+    }
 
-    return packageVersion
-      ? ok({
-          ...config,
-          sideloads: [
-            ...config.sideloads.filter((s) => s.originalPackageName !== packageName),
-            {
-              originalPackageName: packageName,
-              originalPackageVersion: packageVersion,
-              sideloadedPackage: resolvedSource,
-            },
-          ],
-        })
-      : err("packageNotFoundInElmJson")
+    const cacheDir = path.join(runtime.environment.cwd, ".elm.sideload.cache")
+    return resolvePackagesPath(runtime, config).asyncAndThen((packagesPath) =>
+      prepareSideloadSource(runtime, registration, cacheDir, packagesPath).andThen(({ sourcePath }) =>
+        checkSourcePackage(runtime, registration, sourcePath)
+      )
+    )
   }
 
-  const saveConfig = (config: SideloadConfig): ResultAsync<ExecutionResult, CommandError> => {
-    const configPath = path.join(runtime.environment.cwd, "elm.sideload.json")
-    const configJson = JSON.stringify(config, null, 2)
+  // One at a time, since registrations for several versions share a source, and with it a cached repository
+  const checkRegistrations = (
+    config: SideloadConfig,
+    registrations: SideloadRegistration[]
+  ): ResultAsync<void, CommandError> =>
+    registrations.reduce<ResultAsync<void, CommandError>>(
+      (acc, registration) => acc.andThen(() => checkRegistration(config, registration)),
+      okAsync(undefined)
+    )
+
+  const addRegistrations = (config: SideloadConfig, registrations: SideloadRegistration[]): SideloadConfig => ({
+    ...config,
+    sideloads: [...config.sideloads.filter((s) => s.originalPackageName !== packageName), ...registrations],
+  })
 
-    return runtime.fileSystem.writeFile(configPath, configJson).map(() => ({
-      message: `Configured sideload for ${packageName}`,
+  const saveConfig = (
+    config: SideloadConfig,
+    registrations: SideloadRegistration[]
+  ): ResultAsync<ExecutionResult, CommandError> =>
+    saveSideloadConfig(runtime, config).map(() => ({
+      message: `Configured sideload for ${packageName} ${registrations.map((r) => r.originalPackageVersion).join(", ")}`,
     }))
-  }
 
   return resolveInputToSource(runtime, source).andThen((resolvedSource) =>
-    loadElmJson(runtime)
-      .andThen(validatePackageInElmJson)
-      .andThen((elmJson) =>
-        loadSideloadConfig(runtime).andThen((config) => createRegistration(elmJson, config, resolvedSource))
-      )
-      .andThen(saveConfig)
+    loadSideloadConfig(runtime).andThen((config) =>
+      loadElmJsons(runtime, config)
+        .andThen((elmJsons) => createRegistrations(elmJsons, resolvedSource))
+        .andThen((registrations) =>
+          checkRegistrations(config, registrations)
+            .map(() => addRegistrations(config, registrations))
+            .andThen((updated) => saveConfig(updated, registrations))
+        )
+    )
+  )
+}
+
+// =============================================================================
+// Update Command
+// =============================================================================
+
+function executeUpdate(runtime: Runtime, packageName: string | null): ResultAsync<ExecutionResult, CommandError> {
+  type TrackedSideload = SideloadRegistration & {
+    sideloadedPackage: { type: "github" | "git"; url: string; pinTo: { sha: string; branch: string } }
+  }
+
+  type UpdatedPin = {
+    sideload: TrackedSideload
+    newSha: string
+    commits: string[]
+  }
+
+  const isTracked = (sideload: SideloadRegistration): sideload is TrackedSideload =>
+    (sideload.sideloadedPackage.type === "github" || sideload.sideloadedPackage.type === "git") &&
+    sideload.sideloadedPackage.pinTo.branch !== undefined
+
+  const selectSideloads = (config: SideloadConfig): Result<TrackedSideload[], CommandError> => {
+    if (packageName === null) {
+      return ok(config.sideloads.filter(isTracked))
+    }
+
+    const sideload = config.sideloads.find((s) => s.originalPackageName === packageName)
+    if (!sideload) {
+      return err("sideloadNotConfigured")
+    }
+    return isTracked(sideload) ? ok([sideload]) : err("noTrackedBranch")
+  }
+
+  // `mapByRepository` has already fetched the latest changes into the cached clone
+  const resolveNewPin = (sideload: TrackedSideload, cacheDir: string): ResultAsync<UpdatedPin, CommandError> => {
+    const { url, pinTo } = sideload.sideloadedPackage
+
+    return toCachedRepoPath(cacheDir, url).asyncAndThen((repoDir) =>
+      runtime.gitIO
+        .resolveBranchToSha(repoDir, pinTo.branch)
+        .andThen((newSha) =>
+          (newSha === pinTo.sha
+            ? okAsync<string[], CommandError>([])
+            : runtime.gitIO.getCommitsBetween(repoDir, pinTo.sha, newSha)
+          ).map((commits) => ({ sideload, newSha, commits }))
+        )
+    )
+  }
+
+  const applyPins = (config: SideloadConfig, pins: UpdatedPin[]): SideloadConfig => ({
+    ...config,
+    sideloads: config.sideloads.map((sideload) => {
+      // Several versions of one package can each track a branch, so pins are matched to the registration itself
+      const pin = pins.find((p) => p.sideload === sideload)
+      return pin
+        ? {
+            ...sideload,
+            sideloadedPackage: {
+              ...pin.sideload.sideloadedPackage,
+              pinTo: { ...pin.sideload.sideloadedPackage.pinTo, sha: pin.newSha },
+            },
+          }
+        : sideload
+    }),
+  })
+
+  const formatPin = (pin: UpdatedPin): string[] => {
+    const { originalPackageName, sideloadedPackage } = pin.sideload
+    const { sha, branch } = sideloadedPackage.pinTo
+    return pin.newSha === sha
+      ? [`  ${originalPackageName}: already at the head of '${branch}' (${sha})`]
+      : [
+          `  ${originalPackageName}: ${sha} -> ${pin.newSha} (${branch})`,
+          ...pin.commits.map((commit) => `      ${commit}`),
+        ]
+  }
+
+  const createResult = (pins: UpdatedPin[]): ExecutionResult => {
+    const updated = pins.filter((pin) => pin.newSha !== pin.sideload.sideloadedPackage.pinTo.sha)
+    return {
+      message: [
+        updated.length === 0
+          ? "All tracked sideloads are up to date"
+          : `Updated ${updated.length} sideloads; run 'elm-sideload install' to apply them`,
+        "",
+        ...pins.reduce<string[]>((acc, pin) => [...acc, ...formatPin(pin)], []),
+      ].join("\n"),
+      changes: updated.map((pin) => ({
+        packageName: pin.sideload.originalPackageName,
+        action: "updated" as const,
+        source: `${pin.sideload.sideloadedPackage.url}@${pin.newSha}`,
+      })),
+    }
+  }
+
+  const cacheDir = path.join(runtime.environment.cwd, ".elm.sideload.cache")
+
+  return loadSideloadConfig(runtime).andThen((config) =>
+    selectSideloads(config).asyncAndThen((tracked) =>
+      mapByRepository(runtime, cacheDir, tracked, "always", (sideload) =>
+        resolveNewPin(sideload, cacheDir).mapErr(inSideload(sideload))
+      ).andThen((pins) => saveSideloadConfig(runtime, applyPins(config, pins)).map(() => createResult(pins)))
+    )
   )
 }
 
@@ -235,115 +636,135 @@ function executeConfigure(
 
 function executeInstall(
   runtime: Runtime,
-  mode: "interactive" | "always" | "dry-run"
+  mode: "interactive" | "always" | "dry-run",
+  frozen: boolean,
+  watch: boolean,
+  link: boolean,
+  packages: string[]
 ): ResultAsync<ExecutionResult, CommandError> {
-  const validateElmJsonExists = (): ResultAsync<void, CommandError> =>
-    runtime.environment.hasElmJson ? okAsync(undefined) : errAsync("noElmJsonFound")
+  const validateElmJsonsExist = (config: SideloadConfig): ResultAsync<SideloadConfig, CommandError> =>
+    ResultAsync.combine(
+      config.elmJsonPaths.map((elmJsonPath) =>
+        runtime.fileSystem.exists(path.resolve(runtime.environment.cwd, elmJsonPath))
+      )
+    ).andThen((found) => (found.every(Boolean) ? okAsync(config) : errAsync("noElmJsonFound" as const)))
+
+  // Checked before installing anything, so that --watch doesn't install and then fail
+  const validateRelativeOptions = (sideloads: SideloadRegistration[]): Result<SideloadRegistration[], CommandError> =>
+    (watch || link) && !sideloads.some((sideload) => sideload.sideloadedPackage.type === "relative")
+      ? err("noRelativeSideloads")
+      : ok(sideloads)
 
   const ensureCacheDirectory = (): ResultAsync<string, CommandError> => {
     const cacheDir = path.join(runtime.environment.cwd, ".elm.sideload.cache")
     return runtime.fileSystem.mkdir(cacheDir).map(() => cacheDir)
   }
 
-  const installSideload = (
+  const resolveSideload = (
     sideload: SideloadRegistration,
     cacheDir: string,
     elmHomePackagesPath: string
-  ): ResultAsync<AppliedChange, CommandError> => {
+  ): ResultAsync<ResolvedSideload, CommandError> => {
     const { originalPackageName, originalPackageVersion, sideloadedPackage } = sideload
 
-    switch (sideloadedPackage.type) {
-      case "github":
-        const repoUrlParts = sideloadedPackage.url.split("/")
-        const author = repoUrlParts[repoUrlParts.length - 2]
-        const repoName = repoUrlParts[repoUrlParts.length - 1].replace(".git", "")
-        const cachedRepoPath = path.join(cacheDir, author, repoName)
-
-        // Check if repo is already cached
-        const ensureRepoIsCached = (): ResultAsync<string, CommandError> => {
-          return runtime.fileSystem.exists(cachedRepoPath).andThen((exists) => {
-            if (exists) {
-              // Repo exists, pull latest and checkout SHA
-              return runtime.gitIO
-                .isClean(cachedRepoPath)
-                .andThen((isClean) => {
-                  if (!isClean) {
-                    return runtime.gitIO.getRecentCommits(cachedRepoPath, 5).andThen((commits) =>
-                      err({
-                        type: "dirtyRepo",
-                        status: `Repository at ${cachedRepoPath} has uncommitted changes. Recent commits:\n${commits.join("\n")}`,
-                      } as const)
-                    )
-                  }
-                  return ok(undefined)
-                })
-                .andThen(() => runtime.gitIO.pull(cachedRepoPath))
-                .andThen(() => runtime.gitIO.shaExists(cachedRepoPath, sideloadedPackage.pinTo.sha))
-                .andThen((shaExists) => {
-                  if (!shaExists) {
-                    return runtime.gitIO.getRecentCommits(cachedRepoPath, 10).andThen((commits) =>
-                      err({
-                        type: "shaNotFound",
-                        sha: sideloadedPackage.pinTo.sha,
-                        recentCommits: commits,
-                      } as const)
-                    )
-                  }
-                  return ok(undefined)
-                })
-                .andThen(() => runtime.gitIO.checkout(cachedRepoPath, sideloadedPackage.pinTo.sha))
-                .map(() => cachedRepoPath)
-            } else {
-              // Repo not cached, clone it
-              return runtime.gitIO
-                .clone(sideloadedPackage.url, cachedRepoPath)
-                .andThen(() => runtime.gitIO.checkout(cachedRepoPath, sideloadedPackage.pinTo.sha))
-                .map(() => cachedRepoPath)
-            }
-          })
-        }
-
-        return ensureRepoIsCached()
-          .andThen((clonedPath) =>
-            copyPackageToElmHome(runtime, clonedPath, originalPackageName, originalPackageVersion, elmHomePackagesPath)
-          )
-          .map(() => ({
-            packageName: originalPackageName,
-            action: "sideloaded" as const,
-            source: sideloadedPackage.url,
+    return prepareSideloadSource(runtime, sideload, cacheDir, elmHomePackagesPath).andThen(
+      ({ sourcePath, resolvedCommit }) =>
+        checkSourcePackage(runtime, sideload, sourcePath)
+          .andThen(() => warnAboutApiChanges(runtime, sideload, sourcePath, elmHomePackagesPath))
+          .andThen(() => hashDirectory(runtime, sourcePath))
+          .map((contentHash) => ({
+            sideload,
+            sourcePath,
+            locked: {
+              originalPackageName,
+              originalPackageVersion,
+              source: describeSource(sideloadedPackage),
+              resolvedCommit,
+              contentHash,
+            },
           }))
-          .mapErr((gitError) => gitError)
-
-      case "relative":
-        const sourcePath = path.resolve(runtime.environment.cwd, sideloadedPackage.path)
-        return copyPackageToElmHome(
-          runtime,
-          sourcePath,
-          originalPackageName,
-          originalPackageVersion,
-          elmHomePackagesPath
-        ).map(() => ({
-          packageName: originalPackageName,
-          action: "sideloaded" as const,
-          source: sideloadedPackage.path,
-        }))
+    )
+  }
 
-      default:
-        const _: never = sideloadedPackage
-        return errAsync("invalidSideloadConfig")
+  // With --frozen, every selected sideload is checked before any is staged, so that all the differences are reported
+  const checkAgainstLock = (
+    lock: SideloadLock | null,
+    resolved: ResolvedSideload[]
+  ): Result<ResolvedSideload[], CommandError> => {
+    if (lock === null) {
+      return ok(resolved)
     }
+
+    const mismatches = resolved.flatMap(({ sideload, locked }): LockMismatch[] => {
+      const expected = findLockedSideload(lock, sideload) ?? null
+      const matches =
+        expected !== null &&
+        expected.resolvedCommit === locked.resolvedCommit &&
+        expected.contentHash === locked.contentHash
+      return matches
+        ? []
+        : [
+            {
+              packageName: sideload.originalPackageName,
+              version: sideload.originalPackageVersion,
+              locked: expected && { resolvedCommit: expected.resolvedCommit, contentHash: expected.contentHash },
+              resolved: { resolvedCommit: locked.resolvedCommit, contentHash: locked.contentHash },
+            },
+          ]
+    })
+
+    return mismatches.length === 0 ? ok(resolved) : err({ type: "lockfileMismatch", mismatches } as const)
   }
 
-  const performInstallation = (
-    config: SideloadConfig,
+  const resolveSideloads = (
+    sideloads: SideloadRegistration[],
     cacheDir: string,
-    elmHomePackagesPath: string
-  ): ResultAsync<AppliedChange[], CommandError> => {
-    const installPromises = config.sideloads.map((sideload) => installSideload(sideload, cacheDir, elmHomePackagesPath))
+    elmHomePackagesPath: string,
+    frozenLock: SideloadLock | null
+  ): ResultAsync<ResolvedSideload[], CommandError> =>
+    mapByRepository(runtime, cacheDir, sideloads, "always", (sideload) =>
+      resolveSideload(sideload, cacheDir, elmHomePackagesPath).mapErr(inSideload(sideload))
+    ).andThen((resolved) => checkAgainstLock(frozenLock, resolved))
+
+  const stageSideload = (
+    { sideload, sourcePath, locked }: ResolvedSideload,
+    elmHomePackagesPath: string,
+    compiler: Compiler
+  ): ResultAsync<StagedSideload, CommandError> => {
+    const { originalPackageName, originalPackageVersion, sideloadedPackage } = sideload
 
-    return ResultAsync.combine(installPromises)
+    return stagePackage(
+      runtime,
+      sourcePath,
+      originalPackageName,
+      originalPackageVersion,
+      elmHomePackagesPath,
+      isLinked(sideload, link),
+      toStaleArtifactFiles(compiler)
+    ).map((staged) => ({
+      change: {
+        packageName: originalPackageName,
+        action: isLinked(sideload, link) ? ("linked" as const) : ("sideloaded" as const),
+        source: describeSource(sideloadedPackage),
+      },
+      locked,
+      staged,
+    }))
   }
 
+  const performInstallation = (
+    sideloads: SideloadRegistration[],
+    cacheDir: string,
+    elmHomePackagesPath: string,
+    frozenLock: SideloadLock | null,
+    compiler: Compiler
+  ): ResultAsync<StagedSideload[], CommandError> =>
+    resolveSideloads(sideloads, cacheDir, elmHomePackagesPath, frozenLock).andThen((resolved) =>
+      ResultAsync.combine(
+        resolved.map((entry) => stageSideload(entry, elmHomePackagesPath, compiler).mapErr(inSideload(entry.sideload)))
+      )
+    )
+
   const createResult = (changes: AppliedChange[]): ExecutionResult => ({
     message:
       mode === "dry-run"
@@ -352,83 +773,309 @@ function executeInstall(
     changes,
   })
 
-  return validateElmJsonExists()
-    .andThen(() => loadSideloadConfig(runtime))
+  // Sideloads that weren't installed this time keep their previous lock entry; sideloads that are no longer
+  // configured are dropped
+  const updateLock = (
+    config: SideloadConfig,
+    previousLock: SideloadLock | null,
+    installed: StagedSideload[]
+  ): SideloadLock => ({
+    lockfileVersion: 1,
+    sideloads: config.sideloads
+      .map(
+        (sideload) =>
+          installed.map((i) => i.locked).find((locked) => isLockFor(locked, sideload)) ??
+          (previousLock ? findLockedSideload(previousLock, sideload) : undefined)
+      )
+      .filter((locked): locked is LockedSideload => locked !== undefined),
+  })
+
+  const discardStaging = (elmHomePackagesPath: string): ResultAsync<void, CommandError> =>
+    runtime.fileSystem.deleteDir(toStagingRoot(elmHomePackagesPath)).orElse(() => okAsync(undefined))
+
+  const installAndBustCache = (
+    config: SideloadConfig,
+    sideloads: SideloadRegistration[],
+    cacheDir: string,
+    elmHomePackagesPath: string,
+    previousLock: SideloadLock | null
+  ): ResultAsync<ExecutionResult, CommandError> =>
+    performInstallation(sideloads, cacheDir, elmHomePackagesPath, frozen ? previousLock : null, config.compiler)
+      .andThen((staged) =>
+        commitStagedPackages(
+          runtime,
+          elmHomePackagesPath,
+          staged.map((s) => s.staged),
+          () =>
+            bustElmCache(runtime, config).andThen(() => saveLockfile(runtime, updateLock(config, previousLock, staged)))
+        ).map(() => staged.map((s) => s.change))
+      )
+      .andThen((changes) => discardStaging(elmHomePackagesPath).map(() => changes))
+      .orElse((error) => discardStaging(elmHomePackagesPath).andThen(() => errAsync(error)))
+      .map(createResult)
+
+  const printPlan = (plan: InstallPlanEntry[]): void => {
+    const describeState = (entry: InstallPlanEntry): string => {
+      switch (entry.installedState) {
+        case "sideloaded":
+          return "already holds a sideload; will be overwritten"
+        case "linked":
+          return "already holds a linked sideload; the link will be replaced"
+        case "official":
+          return "official package; will be overwritten"
+        case "missing":
+          return "not present"
+      }
+    }
+
+    runtime.userIO.log("Install plan:\n")
+    plan.forEach((entry) => {
+      runtime.userIO.log(`  ${entry.sideload.originalPackageName} ${entry.sideload.originalPackageVersion}`)
+      runtime.userIO.log(`    source: ${entry.source}`)
+      runtime.userIO.log(`    sha:    ${entry.sha ?? "(not a git source)"}`)
+      runtime.userIO.log(`    target: ${entry.targetDir} (${describeState(entry)})\n`)
+    })
+  }
+
+  const pickSideloads = (plan: InstallPlanEntry[]): ResultAsync<SideloadRegistration[], CommandError> =>
+    plan.reduce<ResultAsync<SideloadRegistration[], CommandError>>(
+      (acc, entry) =>
+        acc.andThen((picked) =>
+          runtime.userIO
+            .prompt(`Apply sideload for ${entry.sideload.originalPackageName}? (y/N) `)
+            .map((answer) => (answer.toLowerCase().trim().startsWith("y") ? [...picked, entry.sideload] : picked))
+        ),
+      okAsync([])
+    )
+
+  const confirmPlan = (plan: InstallPlanEntry[]): ResultAsync<SideloadRegistration[], CommandError> => {
+    if (plan.length === 0) {
+      return okAsync([])
+    }
+
+    printPlan(plan)
+
+    return runtime.userIO
+      .prompt("Apply (a)ll sideloads, (p)ick sideloads one at a time, or (q)uit without changes? (a/p/Q) ")
+      .andThen((answer) => {
+        const choice = answer.toLowerCase().trim()
+        if (choice.startsWith("a")) {
+          return okAsync(plan.map((entry) => entry.sideload))
+        }
+        if (choice.startsWith("p")) {
+          return pickSideloads(plan)
+        }
+        return okAsync([])
+      })
+  }
+
+  // In frozen mode the lockfile must exist; otherwise a missing lockfile just means this is the first install
+  const loadPreviousLock = (): ResultAsync<SideloadLock | null, CommandError> =>
+    frozen ? loadLockfile(runtime) : loadLockfile(runtime).orElse(() => okAsync(null))
+
+  return loadSideloadConfig(runtime)
+    .andThen(validateElmJsonsExist)
     .andThen((config) => {
-      const { elmHome } = runtime.environment
-      const elmHomePackagesPath = config.requireElmHome
-        ? elmHome.type === "fromShellEnv"
-          ? ok(elmHome.packagesPath)
-          : err("noElmHome" as const)
-        : ok(elmHome.packagesPath)
-
-      return elmHomePackagesPath.asyncAndThen((packagesPath) =>
-        ensureCacheDirectory().andThen((cacheDir) =>
-          mode === "dry-run"
-            ? ok(
-                config.sideloads.map((sideload) => ({
-                  packageName: sideload.originalPackageName,
-                  action: "sideloaded" as const,
-                  source:
-                    sideload.sideloadedPackage.type === "github"
-                      ? sideload.sideloadedPackage.url
-                      : sideload.sideloadedPackage.path,
-                }))
-              )
-            : performInstallation(config, cacheDir, packagesPath).andThen((output) =>
-                bustElmCache(runtime).map(() => output)
-              )
+      return selectSideloads(config.sideloads, packages)
+        .andThen(validateRelativeOptions)
+        .andThen((sideloads) =>
+          resolvePackagesPath(runtime, config).map((packagesPath) => ({ sideloads, packagesPath }))
+        )
+        .asyncAndThen(({ sideloads, packagesPath }) =>
+          ensureCacheDirectory().andThen((cacheDir) =>
+            loadPreviousLock().andThen((previousLock) => {
+              const installSelected = (selected: SideloadRegistration[]): ResultAsync<ExecutionResult, CommandError> =>
+                installAndBustCache(config, selected, cacheDir, packagesPath, previousLock).andThen((result) =>
+                  watch
+                    ? watchRelativeSideloads(runtime, config, selected, packagesPath, link).map((syncs) => ({
+                        ...result,
+                        message: `${result.message}\nStopped watching after ${syncs} syncs`,
+                      }))
+                    : okAsync(result)
+                )
+
+              // A frozen dry run still resolves every source, to tell whether a real install would pass the lock
+              const checkFrozen = (): ResultAsync<void, CommandError> =>
+                frozen
+                  ? resolveSideloads(sideloads, cacheDir, packagesPath, previousLock).map(() => undefined)
+                  : okAsync(undefined)
+
+              switch (mode) {
+                case "dry-run":
+                  return checkFrozen().map(() =>
+                    createResult(
+                      sideloads.map((sideload) => ({
+                        packageName: sideload.originalPackageName,
+                        action: isLinked(sideload, link) ? ("linked" as const) : ("sideloaded" as const),
+                        source: describeSource(sideload.sideloadedPackage),
+                      }))
+                    )
+                  )
+
+                case "always":
+                  return installSelected(sideloads)
+
+                case "interactive":
+                  return buildInstallPlan(runtime, sideloads, packagesPath)
+                    .andThen(confirmPlan)
+                    .andThen((selected) =>
+                      selected.length === 0
+                        ? okAsync({ message: "No sideloads selected; nothing was installed", changes: [] })
+                        : installSelected(selected)
+                    )
+              }
+            })
+          )
         )
-      )
     })
-    .map(createResult)
 }
 
 // =============================================================================
-// Unload Command
+// Watch Mode
 // =============================================================================
 
-function executeUnload(runtime: Runtime): ResultAsync<ExecutionResult, CommandError> {
-  const removeSideloadedPackage = (
-    packageName: string,
-    version: string,
-    elmHomePackagesPath: string
-  ): ResultAsync<AppliedChange, CommandError> => {
-    const [author, name] = packageName.split("/")
-    if (!author || !name) {
-      return errAsync("invalidPackageName")
-    }
+/**
+ * Keeps the relative sideloads among `sideloads` in sync with their source folders until the user presses Ctrl-C, and
+ * returns how many syncs there were. Only the files that changed are copied, so the rest of the installed package -
+ * and the lockfile, which describes the last full install - are left alone. Linked sideloads already see changes to
+ * their src folder, so for those only the caches are busted.
+ */
+function watchRelativeSideloads(
+  runtime: Runtime,
+  config: SideloadConfig,
+  sideloads: SideloadRegistration[],
+  elmHomePackagesPath: string,
+  linkAll: boolean
+): ResultAsync<number, CommandError> {
+  let syncs = 0
+  // Syncs run one at a time, in the order the changes came in
+  let pending: ResultAsync<void, never> = okAsync(undefined)
+  // A watcher that breaks down ends the whole session with its error, as if the user had pressed Ctrl-C
+  let stopWatching: (error: CommandError) => void = () => {}
+  const brokenWatcher = new Promise<CommandError>((resolve) => {
+    stopWatching = resolve
+  })
 
-    const packageDir = path.join(elmHomePackagesPath, author, name, version)
+  // A failed sync doesn't stop the others: the files may just have been caught halfway through being saved
+  const enqueueSync =
+    (sideload: SideloadRegistration, sourcePath: string, targetDir: string) =>
+    (changed: string[]): void => {
+      pending = pending.andThen(() =>
+        syncChangedFiles(runtime, config, sourcePath, targetDir, changed, isLinked(sideload, linkAll))
+          .map(({ updated, removed }) => {
+            syncs += 1
+            runtime.userIO.log(
+              `Synced ${sideload.originalPackageName} ${sideload.originalPackageVersion} from ${sourcePath}: ` +
+                `${updated} updated, ${removed} removed`
+            )
+          })
+          .orElse((error) => {
+            runtime.userIO.log(
+              `Could not sync ${sideload.originalPackageName} ${sideload.originalPackageVersion} from ${sourcePath} ` +
+                `(${typeof error === "string" ? error : error.type}); save the files again or re-run install`
+            )
+            return okAsync(undefined)
+          })
+      )
+    }
 
-    console.log(`Deleting sideloaded package at ${packageDir} to force the compiler to re-download the package...`)
+  const startWatching = (sideload: SideloadRegistration): ResultAsync<() => void, CommandError> => {
+    const { sideloadedPackage, originalPackageName, originalPackageVersion } = sideload
+    if (sideloadedPackage.type !== "relative") {
+      return errAsync("noRelativeSideloads")
+    }
 
-    return runtime.fileSystem
-      .exists(packageDir)
-      .andThen((exists) => {
-        if (exists) {
-          return runtime.fileSystem.deleteDir(packageDir)
-        } else {
-          return okAsync(undefined)
-        }
-      })
-      .map(() => ({
-        packageName,
-        action: "restored" as const,
-        source: "official package repository",
-      }))
-      .mapErr((err) => {
-        console.error(err)
-        return "unloadFailed" as const
+    const sourcePath = path.resolve(runtime.environment.cwd, sideloadedPackage.path)
+    return toPackageDir(elmHomePackagesPath, originalPackageName, originalPackageVersion)
+      .asyncAndThen((targetDir) =>
+        runtime.fileSystem.watchDirectory(sourcePath, enqueueSync(sideload, sourcePath, targetDir), (error) =>
+          stopWatching(inSideload(sideload)(error))
+        )
+      )
+      .map((stop) => {
+        runtime.userIO.log(`Watching ${sourcePath} for changes to ${originalPackageName}`)
+        return stop
       })
+      .mapErr(inSideload(sideload))
+  }
+
+  const relative = sideloads.filter((sideload) => sideload.sideloadedPackage.type === "relative")
+
+  return ResultAsync.combine(relative.map(startWatching)).andThen((stops) => {
+    runtime.userIO.log("Press Ctrl-C to stop watching")
+    const interrupted = new Promise<null>((resolve) => runtime.userIO.untilInterrupted().map(() => resolve(null)))
+    return ResultAsync.fromSafePromise(Promise.race([interrupted, brokenWatcher])).andThen(
+      (error): ResultAsync<number, CommandError> => {
+        stops.forEach((stop) => stop())
+        return pending.andThen(() => (error === null ? okAsync(syncs) : errAsync(error)))
+      }
+    )
+  })
+}
+
+// Copies the changed paths from the source into the installed package, removing the ones that no longer exist, then
+// deletes the compiled artifacts that described the old code: the package's own, and each project's elm-stuff
+function syncChangedFiles(
+  runtime: Runtime,
+  config: SideloadConfig,
+  sourcePath: string,
+  targetDir: string,
+  changed: string[],
+  linked: boolean
+): ResultAsync<{ updated: number; removed: number }, CommandError> {
+  const syncPath = (relativePath: string): ResultAsync<"updated" | "removed", CommandError> => {
+    const source = path.join(sourcePath, relativePath)
+    const target = path.join(targetDir, relativePath)
+    // Through the link, the target already is the source
+    const seenThroughLink = linked && relativePath.split("/")[0] === "src"
+
+    return runtime.fileSystem.exists(source).andThen((exists) =>
+      seenThroughLink
+        ? okAsync(exists ? ("updated" as const) : ("removed" as const))
+        : exists
+          ? runtime.fileSystem
+              .mkdir(path.dirname(target))
+              .andThen(() => runtime.fileSystem.copyDirectoryRecursive(source, target))
+              .map(() => "updated" as const)
+          : runtime.fileSystem.deleteDir(target).map(() => "removed" as const)
+    )
   }
 
+  return changed
+    .reduce<ResultAsync<{ updated: number; removed: number }, CommandError>>(
+      (acc, relativePath) =>
+        acc.andThen((counts) =>
+          syncPath(relativePath).map((outcome) => ({ ...counts, [outcome]: counts[outcome] + 1 }))
+        ),
+      okAsync({ updated: 0, removed: 0 })
+    )
+    .andThen((counts) =>
+      deleteArtifacts(runtime, targetDir, toStaleArtifactFiles(config.compiler))
+        .andThen(() =>
+          ResultAsync.combine(
+            toProjectCachePaths(runtime, config).map((cachePath) => runtime.fileSystem.deleteDir(cachePath))
+          )
+        )
+        .map(() => counts)
+    )
+}
+
+// =============================================================================
+// Unload Command
+// =============================================================================
+
+function executeUnload(runtime: Runtime, packages: string[]): ResultAsync<ExecutionResult, CommandError> {
   const performUnload = (
-    config: SideloadConfig,
+    sideloads: SideloadRegistration[],
     elmHomePackagesPath: string
   ): ResultAsync<AppliedChange[], CommandError> => {
-    const unloadPromises = config.sideloads.map((sideload) =>
-      removeSideloadedPackage(sideload.originalPackageName, sideload.originalPackageVersion, elmHomePackagesPath)
+    const unloadPromises = sideloads.map((sideload) =>
+      restoreOfficialPackage(
+        runtime,
+        sideload.originalPackageName,
+        sideload.originalPackageVersion,
+        elmHomePackagesPath
+      )
     )
 
     return ResultAsync.combine(unloadPromises)
@@ -436,15 +1083,10 @@ function executeUnload(runtime: Runtime): ResultAsync<ExecutionResult, CommandEr
 
   return loadSideloadConfig(runtime)
     .andThen((config) => {
-      const { elmHome } = runtime.environment
-      const elmHomePackagesPath = config.requireElmHome
-        ? elmHome.type === "fromShellEnv"
-          ? ok(elmHome.packagesPath)
-          : err("noElmHome" as const)
-        : ok(elmHome.packagesPath)
-
-      return elmHomePackagesPath.asyncAndThen((packagesPath) =>
-        bustElmCache(runtime).andThen(() => performUnload(config, packagesPath))
+      return selectSideloads(config.sideloads, packages).asyncAndThen((sideloads) =>
+        resolvePackagesPath(runtime, config).asyncAndThen((packagesPath) =>
+          bustElmCache(runtime, config).andThen(() => performUnload(sideloads, packagesPath))
+        )
       )
     })
     .map((changes) => ({
@@ -454,117 +1096,1653 @@ function executeUnload(runtime: Runtime): ResultAsync<ExecutionResult, CommandEr
 }
 
 // =============================================================================
-// Utility Functions
+// Remove Command
 // =============================================================================
 
-const bustElmCache = (runtime: Runtime): ResultAsync<void, CommandError> => {
-  const elmStuffPath = path.join(runtime.environment.cwd, "elm-stuff", "0.19.1")
+function executeRemove(
+  runtime: Runtime,
+  packageName: string,
+  prune: boolean
+): ResultAsync<ExecutionResult, CommandError> {
+  // With several Elm projects, the package may have a registration for each version that they use
+  const findRemoved = (config: SideloadConfig): Result<SideloadRegistration[], CommandError> => {
+    const removed = config.sideloads.filter((s) => s.originalPackageName === packageName)
+    return removed.length > 0 ? ok(removed) : err("sideloadNotConfigured")
+  }
 
-  return runtime.fileSystem
-    .exists(elmStuffPath)
-    .andThen((exists) => {
-      if (exists) {
-        console.log(`Deleting ${elmStuffPath} to bust compilation cache...`)
-        return runtime.fileSystem.deleteDir(elmStuffPath)
-      } else {
-        return okAsync(undefined)
-      }
-    })
-    .mapErr(() => "writeError" as const)
-}
+  // Only a sideload is put back; an official package, or none at all, is already what removing the sideload leads to
+  const restoreIfSideloaded = (
+    sideload: SideloadRegistration,
+    elmHomePackagesPath: string
+  ): ResultAsync<AppliedChange | null, CommandError> =>
+    toPackageDir(elmHomePackagesPath, sideload.originalPackageName, sideload.originalPackageVersion)
+      .asyncAndThen((packageDir) => getInstalledState(runtime, packageDir))
+      .andThen((state) =>
+        state === "sideloaded" || state === "linked"
+          ? restoreOfficialPackage(
+              runtime,
+              sideload.originalPackageName,
+              sideload.originalPackageVersion,
+              elmHomePackagesPath
+            )
+          : okAsync(null)
+      )
 
-function resolveInputToSource(runtime: Runtime, input: ConfigureInput): ResultAsync<ConfigureSource, CommandError> {
-  switch (input.type) {
-    case "relative":
-      return okAsync(input)
+  // Install drops lock entries for sideloads that are no longer configured; this does it right away for the package
+  const dropFromLockfile = (): ResultAsync<void, CommandError> =>
+    loadLockfile(runtime)
+      .map((lock): SideloadLock | null => lock)
+      .orElse(() => okAsync(null))
+      .andThen((lock) =>
+        lock === null
+          ? okAsync(undefined)
+          : saveLockfile(runtime, {
+              ...lock,
+              sideloads: lock.sideloads.filter((locked) => locked.originalPackageName !== packageName),
+            })
+      )
 
-    case "github":
-      if ("sha" in input.pinTo) {
-        // Already has SHA, but still need to cache the repo
-        const cacheDir = path.join(runtime.environment.cwd, ".elm.sideload.cache")
-        const repoUrlParts = input.url.split("/")
-        const author = repoUrlParts[repoUrlParts.length - 2]
-        const repoName = repoUrlParts[repoUrlParts.length - 1].replace(".git", "")
-        const targetDir = path.join(cacheDir, author, repoName)
-        const sha = input.pinTo.sha
-
-        return runtime.gitIO
-          .clone(input.url, targetDir)
-          .andThen(() => runtime.gitIO.checkout(targetDir, sha))
-          .map(() => ({
-            type: "github" as const,
-            url: input.url,
-            pinTo: { sha },
-          }))
-          .mapErr((gitError) => gitError)
-      } else {
-        // Has branch, resolve to SHA and cache
-        const cacheDir = path.join(runtime.environment.cwd, ".elm.sideload.cache")
-        const repoUrlParts = input.url.split("/")
-        const author = repoUrlParts[repoUrlParts.length - 2]
-        const repoName = repoUrlParts[repoUrlParts.length - 1].replace(".git", "")
-        const targetDir = path.join(cacheDir, author, repoName)
-        const branch = input.pinTo.branch
-
-        return runtime.gitIO
-          .clone(input.url, targetDir)
-          .andThen(() => runtime.gitIO.resolveBranchToSha(targetDir, branch))
-          .andThen((sha) => runtime.gitIO.checkout(targetDir, sha).map(() => sha))
-          .map((sha) => ({
-            type: "github" as const,
-            url: input.url,
-            pinTo: { sha },
-          }))
-          .mapErr((gitError) => gitError)
+  // A cached clone, and the worktrees checked out from it, can go once no remaining sideload comes from it
+  const pruneClones = (
+    removed: SideloadRegistration[],
+    remaining: SideloadConfig
+  ): ResultAsync<string[], CommandError> => {
+    const cacheDir = path.join(runtime.environment.cwd, ".elm.sideload.cache")
+    const worktreesDir = path.join(cacheDir, "_worktrees")
+    const toClone = (sideload: SideloadRegistration): { url: string; repoPath: string }[] => {
+      const gitSource = toGitSource(sideload.sideloadedPackage)
+      const repoPath = gitSource ? toCachedRepoPath(cacheDir, gitSource.url).unwrapOr(null) : null
+      return gitSource && repoPath ? [{ url: gitSource.url, repoPath }] : []
+    }
+
+    const stillUsed = new Set(remaining.sideloads.flatMap(toClone).map((clone) => clone.repoPath))
+    const unused = [...new Map(removed.flatMap(toClone).map((clone) => [clone.repoPath, clone])).values()].filter(
+      (clone) => !stillUsed.has(clone.repoPath)
+    )
+
+    // toCachedRepoPath already keeps clones inside the cache; this makes sure of it again right before deleting
+    const deleteClone = ({ url, repoPath }: { url: string; repoPath: string }): ResultAsync<void, CommandError> => {
+      const worktreesPath = path.join(worktreesDir, path.relative(cacheDir, repoPath))
+      if (!isInsideDir(cacheDir, repoPath) || !isInsideDir(worktreesDir, worktreesPath)) {
+        return errAsync({ type: "invalidRemoteUrl", url, reason: "its clone is outside .elm.sideload.cache" } as const)
       }
 
-    default:
-      const _: never = input
-      throw new Error(`Unhandled ConfigureInput type: ${(input as any).type}`)
+      runtime.userIO.log(`Deleting the cached clone at ${repoPath}...`)
+      return runtime.fileSystem.deleteDir(worktreesPath).andThen(() => runtime.fileSystem.deleteDir(repoPath))
+    }
+
+    return unused
+      .reduce((acc, clone) => acc.andThen(() => deleteClone(clone)), okAsync<void, CommandError>(undefined))
+      .map(() => unused.map((clone) => clone.repoPath))
   }
-}
 
-function copyPackageToElmHome(
-  runtime: Runtime,
-  sourcePath: string,
+  const createResult = (
+    removed: SideloadRegistration[],
+    changes: AppliedChange[],
+    pruned: string[]
+  ): ExecutionResult => ({
+    message: [
+      `Removed the sideload for ${packageName} ${removed.map((s) => s.originalPackageVersion).join(", ")}`,
+      ...(changes.length === 0 ? [] : ["Restored the official package in ELM_HOME"]),
+      ...pruned.map((repoPath) => `Deleted the cached clone at ${repoPath}`),
+    ].join("\n"),
+    changes,
+  })
+
+  return loadSideloadConfig(runtime).andThen((config) =>
+    findRemoved(config).asyncAndThen((removed) =>
+      resolvePackagesPath(runtime, config).asyncAndThen((packagesPath) => {
+        const remaining: SideloadConfig = {
+          ...config,
+          sideloads: config.sideloads.filter((s) => s.originalPackageName !== packageName),
+        }
+
+        return removed
+          .reduce<ResultAsync<AppliedChange[], CommandError>>(
+            (acc, sideload) =>
+              acc.andThen((changes) =>
+                restoreIfSideloaded(sideload, packagesPath)
+                  .mapErr(inSideload(sideload))
+                  .map((change) => (change === null ? changes : [...changes, change]))
+              ),
+            okAsync([])
+          )
+          .andThen((changes) =>
+            bustElmCache(runtime, config)
+              .andThen(() => saveSideloadConfig(runtime, remaining))
+              .andThen(dropFromLockfile)
+              .andThen(() => (prune ? pruneClones(removed, remaining) : okAsync<string[], CommandError>([])))
+              .map((pruned) => createResult(removed, changes, pruned))
+          )
+      })
+    )
+  )
+}
+
+// =============================================================================
+// Status Command
+// =============================================================================
+
+function executeStatus(runtime: Runtime): ResultAsync<ExecutionResult, CommandError> {
+  const configuredStatus = (
+    sideload: SideloadRegistration,
+    elmHomePackagesPath: string
+  ): ResultAsync<PackageStatus, CommandError> =>
+    toPackageDir(elmHomePackagesPath, sideload.originalPackageName, sideload.originalPackageVersion)
+      .asyncAndThen((packageDir) => getInstalledState(runtime, packageDir))
+      .map((state) => ({
+        packageName: sideload.originalPackageName,
+        version: sideload.originalPackageVersion,
+        state,
+        configured: true,
+      }))
+
+  const formatState = (state: InstalledState): string => {
+    switch (state) {
+      case "sideloaded":
+        return "sideloaded"
+      case "linked":
+        return "sideloaded, linked to its source folder"
+      case "official":
+        return "official package"
+      case "missing":
+        return "missing from ELM_HOME"
+    }
+  }
+
+  const createResult = (packages: PackageStatus[], elmHomePackagesPath: string): ExecutionResult => {
+    const configured = packages.filter((p) => p.configured)
+    const unconfigured = packages.filter((p) => !p.configured)
+
+    const lines = [
+      `Sideload status for ${elmHomePackagesPath}:`,
+      "",
+      ...(configured.length === 0
+        ? ["  No sideloads configured in elm.sideload.json"]
+        : configured.map((p) => `  ${p.packageName} ${p.version}: ${formatState(p.state)}`)),
+      ...(unconfigured.length === 0
+        ? []
+        : [
+            "",
+            "Sideloaded packages that elm.sideload.json no longer mentions:",
+            "",
+            ...unconfigured.map((p) => `  ${p.packageName} ${p.version}`),
+          ]),
+    ]
+
+    return { message: lines.join("\n"), packages }
+  }
+
+  return loadSideloadConfig(runtime).andThen((config) =>
+    resolvePackagesPath(runtime, config).asyncAndThen((packagesPath) =>
+      ResultAsync.combine(config.sideloads.map((sideload) => configuredStatus(sideload, packagesPath)))
+        .andThen((configured) =>
+          findSideloadedPackages(runtime, packagesPath)
+            .andThen((sideloaded) =>
+              ResultAsync.combine(
+                sideloaded
+                  .filter(
+                    (found) =>
+                      !config.sideloads.some(
+                        (s) => s.originalPackageName === found.packageName && s.originalPackageVersion === found.version
+                      )
+                  )
+                  .map((found) =>
+                    getInstalledState(runtime, path.join(packagesPath, found.packageName, found.version)).map(
+                      (state) => ({ ...found, state, configured: false })
+                    )
+                  )
+              )
+            )
+            .map((unconfigured) => [...configured, ...unconfigured])
+        )
+        .map((packages) => createResult(packages, packagesPath))
+    )
+  )
+}
+
+// =============================================================================
+// Verify Command
+// =============================================================================
+
+function executeVerify(runtime: Runtime): ResultAsync<ExecutionResult, CommandError> {
+  // Files that the compiler or elm-sideload itself writes into a package directory
+  const generatedFiles = new Set([".elm-sideload", ...knownArtifactFiles])
+
+  const compareTrees = (
+    installed: Map<string, string>,
+    source: Map<string, string>
+  ): Pick<PackageDrift, "added" | "removed" | "modified"> => ({
+    added: [...installed.keys()].filter((file) => !source.has(file)).sort(),
+    removed: [...source.keys()].filter((file) => !installed.has(file)).sort(),
+    modified: [...source.keys()]
+      .filter((file) => installed.has(file) && installed.get(file) !== source.get(file))
+      .sort(),
+  })
+
+  const verifySideload = (
+    sideload: SideloadRegistration,
+    cacheDir: string,
+    elmHomePackagesPath: string
+  ): ResultAsync<PackageDrift, CommandError> =>
+    toPackageDir(elmHomePackagesPath, sideload.originalPackageName, sideload.originalPackageVersion).asyncAndThen(
+      (packageDir) =>
+        prepareSideloadSource(runtime, sideload, cacheDir, elmHomePackagesPath).andThen(({ sourcePath }) =>
+          hashFiles(runtime, sourcePath).andThen((source) =>
+            runtime.fileSystem.exists(packageDir).andThen((exists) =>
+              (exists
+                ? hashFiles(runtime, packageDir).map(
+                    (files) => new Map([...files].filter(([file]) => !generatedFiles.has(file)))
+                  )
+                : okAsync<Map<string, string>, CommandError>(new Map())
+              ).map((installed) => ({
+                packageName: sideload.originalPackageName,
+                version: sideload.originalPackageVersion,
+                missing: !exists,
+                ...compareTrees(installed, source),
+              }))
+            )
+          )
+        )
+    )
+
+  const hasDrift = (drift: PackageDrift): boolean =>
+    drift.missing || drift.added.length > 0 || drift.removed.length > 0 || drift.modified.length > 0
+
+  const formatDrift = (drift: PackageDrift): string[] => {
+    const header = `  ${drift.packageName} ${drift.version}`
+    if (drift.missing) {
+      return [`${header}: missing from ELM_HOME`]
+    }
+    if (!hasDrift(drift)) {
+      return [`${header}: ok`]
+    }
+    return [
+      `${header}: drifted from its source`,
+      ...drift.added.map((file) => `      added:    ${file}`),
+      ...drift.removed.map((file) => `      removed:  ${file}`),
+      ...drift.modified.map((file) => `      modified: ${file}`),
+    ]
+  }
+
+  const report = (drifts: PackageDrift[]): ResultAsync<ExecutionResult, CommandError> => {
+    const lines = drifts.reduce<string[]>((acc, drift) => [...acc, ...formatDrift(drift)], [])
+    const drifted = drifts.filter(hasDrift)
+
+    if (drifted.length > 0) {
+      runtime.userIO.log(lines.join("\n"))
+      return errAsync({ type: "sideloadDrift", drifts })
+    }
+
+    return okAsync({
+      message: [`Verified ${drifts.length} sideloads against their sources:`, "", ...lines].join("\n"),
+    })
+  }
+
+  return loadSideloadConfig(runtime).andThen((config) =>
+    resolvePackagesPath(runtime, config).asyncAndThen((packagesPath) => {
+      const cacheDir = path.join(runtime.environment.cwd, ".elm.sideload.cache")
+      return mapByRepository(runtime, cacheDir, config.sideloads, "ifMissing", (sideload) =>
+        verifySideload(sideload, cacheDir, packagesPath).mapErr(inSideload(sideload))
+      ).andThen(report)
+    })
+  )
+}
+
+// =============================================================================
+// Compat Command
+// =============================================================================
+
+function executeCompat(runtime: Runtime, packageName: string): ResultAsync<ExecutionResult, CommandError> {
+  const findSideload = (config: SideloadConfig): Result<SideloadRegistration, CommandError> => {
+    const sideload = config.sideloads.find((s) => s.originalPackageName === packageName)
+    return sideload ? ok(sideload) : err("sideloadNotConfigured")
+  }
+
+  const compareWithOfficial = (
+    sideload: SideloadRegistration,
+    elmHomePackagesPath: string
+  ): ResultAsync<ApiCompatibility, CommandError> => {
+    const cacheDir = path.join(runtime.environment.cwd, ".elm.sideload.cache")
+
+    return runtime.fileSystem
+      .mkdir(cacheDir)
+      .andThen(() => findOfficialPackageDir(runtime, sideload, elmHomePackagesPath))
+      .andThen((officialDir) =>
+        officialDir === null
+          ? errAsync<ApiCompatibility, CommandError>("noPristineOfficialPackage")
+          : prepareSideloadSource(runtime, sideload, cacheDir, elmHomePackagesPath).andThen(({ sourcePath }) =>
+              compareApis(runtime, sideload, officialDir, sourcePath)
+            )
+      )
+  }
+
+  const report = (compatibility: ApiCompatibility): ResultAsync<ExecutionResult, CommandError> => {
+    const lines = formatApiCompatibility(compatibility)
+
+    if (isBreakingApiChange(compatibility)) {
+      runtime.userIO.log(lines.join("\n"))
+      return errAsync({ type: "apiIncompatible", compatibility })
+    }
+
+    return okAsync({
+      message: [`Compared ${packageName} against the official package:`, "", ...lines].join("\n"),
+      compatibility,
+    })
+  }
+
+  return loadSideloadConfig(runtime).andThen((config) =>
+    findSideload(config).asyncAndThen((sideload) =>
+      resolvePackagesPath(runtime, config).asyncAndThen((packagesPath) =>
+        compareWithOfficial(sideload, packagesPath).andThen(report)
+      )
+    )
+  )
+}
+
+// =============================================================================
+// Doctor Command
+// =============================================================================
+
+function executeDoctor(runtime: Runtime): ResultAsync<ExecutionResult, CommandError> {
+  const cacheDir = path.join(runtime.environment.cwd, ".elm.sideload.cache")
+
+  const check = (
+    name: string,
+    status: DoctorCheck["status"],
+    message: string,
+    hint: string | null = null
+  ): DoctorCheck => ({ name, status, message, hint })
+
+  // A check that can't even look at what it checks fails with the error that stopped it, rather than stopping doctor
+  const orFail = (name: string, result: ResultAsync<DoctorCheck, CommandError>): ResultAsync<DoctorCheck, never> =>
+    result.orElse((error) =>
+      diagnose(runtime, error).map((diagnostic) => check(name, "fail", diagnostic.title, diagnostic.hint))
+    )
+
+  const checkGit = (): ResultAsync<DoctorCheck, CommandError> =>
+    runtime.gitIO
+      .getVersion()
+      .map((version) =>
+        compareVersions(version, minimumGitVersion) >= 0
+          ? check("git", "pass", `git ${version}`)
+          : check(
+              "git",
+              "fail",
+              `git ${version} is older than ${minimumGitVersion}`,
+              `Upgrade git to ${minimumGitVersion} or newer; elm-sideload checks out pinned commits with 'git worktree'.`
+            )
+      )
+      .orElse(() =>
+        okAsync(
+          check(
+            "git",
+            "fail",
+            "git could not be run",
+            `Install git ${minimumGitVersion} or newer, and make sure that it's on your PATH.`
+          )
+        )
+      )
+
+  const checkRequireElmHome = (config: SideloadConfig): DoctorCheck => {
+    const { elmHome } = runtime.environment
+    if (!config.requireElmHome) {
+      return check("requireElmHome", "pass", "elm.sideload.json doesn't require ELM_HOME to be set")
+    }
+    return elmHome.type === "fromShellEnv"
+      ? check("requireElmHome", "pass", `ELM_HOME is set to ${elmHome.elmHome}, as elm.sideload.json requires`)
+      : check(
+          "requireElmHome",
+          "fail",
+          "elm.sideload.json requires ELM_HOME to be set, but it isn't set in this shell",
+          `Set ELM_HOME before running elm-sideload or the compiler, or set "requireElmHome" to false.`
+        )
+  }
+
+  // Writing a file is the only reliable way to tell, since permissions alone don't account for read-only mounts
+  const checkElmHome = (packagesPath: string): ResultAsync<DoctorCheck, CommandError> => {
+    const probe = path.join(packagesPath, ".elm-sideload-doctor")
+
+    return runtime.fileSystem.exists(packagesPath).andThen((exists) =>
+      !exists
+        ? okAsync(
+            check(
+              "ELM_HOME",
+              "fail",
+              `${packagesPath} does not exist`,
+              "Build your project once with the compiler so that it downloads its packages, or check ELM_HOME."
+            )
+          )
+        : runtime.fileSystem
+            .writeFile(probe, "")
+            .andThen(() => runtime.fileSystem.deleteFile(probe))
+            .map(() => check("ELM_HOME", "pass", `${packagesPath} exists and is writable`))
+            .orElse(() =>
+              okAsync(
+                check(
+                  "ELM_HOME",
+                  "fail",
+                  `${packagesPath} is not writable`,
+                  "Check the permissions of your ELM_HOME; install and unload write into it."
+                )
+              )
+            )
+    )
+  }
+
+  const checkPackages = (config: SideloadConfig, packagesPath: string): ResultAsync<DoctorCheck, CommandError> =>
+    ResultAsync.combine(
+      config.sideloads.map((sideload) =>
+        toPackageDir(packagesPath, sideload.originalPackageName, sideload.originalPackageVersion)
+          .asyncAndThen((packageDir) => getInstalledState(runtime, packageDir))
+          .map((state) => ({ sideload, state }))
+      )
+    ).map((states) => {
+      const missing = states.filter(({ state }) => state === "missing")
+      return missing.length === 0
+        ? check("packages", "pass", `All ${states.length} configured package versions are in ELM_HOME`)
+        : check(
+            "packages",
+            "fail",
+            `Missing from ELM_HOME: ${missing.map(({ sideload }) => `${sideload.originalPackageName} ${sideload.originalPackageVersion}`).join(", ")}`,
+            "Build your project once with the compiler so that it downloads them; install only overwrites packages that are there."
+          )
+    })
+
+  const checkGitignore = (): ResultAsync<DoctorCheck, CommandError> =>
+    runtime.fileSystem
+      .readFile(path.join(runtime.environment.cwd, ".gitignore"))
+      .orElse(() => okAsync(""))
+      .map((content) =>
+        content
+          .split("\n")
+          .map((line) => line.trim().replace(/^\//, "").replace(/\/$/, ""))
+          .includes(".elm.sideload.cache")
+          ? check("gitignore", "pass", ".elm.sideload.cache is in .gitignore")
+          : check(
+              "gitignore",
+              "warn",
+              ".elm.sideload.cache is not in .gitignore",
+              "Add '.elm.sideload.cache' to your .gitignore, so that the cached clones are never committed."
+            )
+      )
+
+  // Only the worktrees that install reads from matter; a worktree that hasn't been checked out yet can't be dirty
+  const checkCachedRepos = (config: SideloadConfig): ResultAsync<DoctorCheck, CommandError> => {
+    const worktreeDirs = [
+      ...new Set(
+        config.sideloads
+          .map((sideload) => toGitSource(sideload.sideloadedPackage))
+          .filter((source): source is GitSideloadSource => source !== null)
+          .map((source) =>
+            toCachedRepoPath(cacheDir, source.url)
+              .map((repoDir) => path.join(cacheDir, "_worktrees", path.relative(cacheDir, repoDir), source.pinTo.sha))
+              .unwrapOr(null)
+          )
+          .filter((dir): dir is string => dir !== null)
+      ),
+    ]
+
+    return ResultAsync.combine(
+      worktreeDirs.map((dir) =>
+        runtime.fileSystem
+          .exists(dir)
+          .andThen((exists) => (exists ? runtime.gitIO.isClean(dir) : okAsync(true)))
+          .map((isClean) => ({ dir, isClean }))
+      )
+    ).map((results) => {
+      const dirty = results.filter(({ isClean }) => !isClean)
+      return dirty.length === 0
+        ? check("cached repositories", "pass", "No cached checkout has uncommitted changes")
+        : check(
+            "cached repositories",
+            "fail",
+            `Uncommitted changes in ${dirty.map(({ dir }) => dir).join(", ")}`,
+            `elm-sideload only installs committed code; delete these folders from ${cacheDir} to check them out again.`
+          )
+    })
+  }
+
+  // Install deletes a sideload's artifacts, and the compiler writes new ones when it builds the package; artifacts
+  // older than any of the package's files were built from code that has since changed, as happens with linked sources
+  const findStaleArtifacts = (packageDir: string): ResultAsync<string[], CommandError> =>
+    runtime.fileSystem.listFilesRecursive(packageDir).andThen((files) => {
+      const artifacts = files.filter((file) => knownArtifactFiles.includes(file))
+      const packageFiles = files.filter((file) => !knownArtifactFiles.includes(file))
+      const newest = (paths: string[]): ResultAsync<number, CommandError> =>
+        ResultAsync.combine(paths.map((file) => runtime.fileSystem.modifiedTime(path.join(packageDir, file)))).map(
+          (times) => Math.max(0, ...times)
+        )
+
+      return newest(packageFiles).andThen((newestFile) =>
+        ResultAsync.combine(
+          artifacts.map((artifact) =>
+            runtime.fileSystem
+              .modifiedTime(path.join(packageDir, artifact))
+              .map((time) => (time < newestFile ? [path.join(packageDir, artifact)] : []))
+          )
+        ).map((stale) => stale.flat())
+      )
+    })
+
+  const sideloadedDirs = (config: SideloadConfig, packagesPath: string): ResultAsync<string[], CommandError> =>
+    ResultAsync.combine(
+      config.sideloads.map((sideload) =>
+        toPackageDir(packagesPath, sideload.originalPackageName, sideload.originalPackageVersion).asyncAndThen(
+          (packageDir) =>
+            getInstalledState(runtime, packageDir).map((state) =>
+              state === "sideloaded" || state === "linked" ? [packageDir] : []
+            )
+        )
+      )
+    ).map((dirs) => dirs.flat())
+
+  const checkArtifacts = (packageDirs: string[]): ResultAsync<DoctorCheck, CommandError> =>
+    ResultAsync.combine(packageDirs.map(findStaleArtifacts))
+      .map((stale) => stale.flat())
+      .map((stale) =>
+        stale.length === 0
+          ? check("artifacts", "pass", "No sideloaded package has stale build artifacts")
+          : check(
+              "artifacts",
+              "warn",
+              `Built from older code: ${stale.join(", ")}`,
+              "Delete these files, or run 'elm-sideload install' again; use 'install --watch' while editing a linked source."
+            )
+      )
+
+  // A project cache from before the latest install may still hold code compiled against the official packages
+  const checkElmStuff = (config: SideloadConfig, packageDirs: string[]): ResultAsync<DoctorCheck, CommandError> =>
+    ResultAsync.combine(packageDirs.map((dir) => runtime.fileSystem.modifiedTime(path.join(dir, ".elm-sideload"))))
+      .andThen((installTimes) => {
+        const lastInstall = Math.max(0, ...installTimes)
+        return ResultAsync.combine(
+          toProjectCachePaths(runtime, config).map((cachePath) =>
+            runtime.fileSystem
+              .exists(cachePath)
+              .andThen((exists) =>
+                exists ? runtime.fileSystem.modifiedTime(cachePath).map((time) => time < lastInstall) : okAsync(false)
+              )
+              .map((isLeftover) => (isLeftover ? [cachePath] : []))
+          )
+        ).map((leftovers) => leftovers.flat())
+      })
+      .map((leftovers) =>
+        leftovers.length === 0
+          ? check("elm-stuff", "pass", "No project cache predates the installed sideloads")
+          : check(
+              "elm-stuff",
+              "warn",
+              `Older than the installed sideloads: ${leftovers.join(", ")}`,
+              "Delete these folders so that the compiler rebuilds your projects against the sideloads."
+            )
+      )
+
+  // Without a readable elm.sideload.json, only the checks that don't depend on it can run, taking the compiler to be elm
+  const checkWithConfig = (): ResultAsync<DoctorCheck[], never> =>
+    loadSideloadConfig(runtime)
+      .andThen((config) => {
+        const packagesPath = toPackagesPath(config.compiler, runtime.environment.elmHome.elmHome)
+        const configured = check(
+          "elm.sideload.json",
+          "pass",
+          `${config.sideloads.length} sideloads for the ${config.compiler} compiler`
+        )
+
+        return sideloadedDirs(config, packagesPath)
+          .orElse(() => okAsync<string[], CommandError>([]))
+          .andThen((packageDirs) =>
+            ResultAsync.combine([
+              okAsync<DoctorCheck, never>(configured),
+              okAsync<DoctorCheck, never>(checkRequireElmHome(config)),
+              orFail("ELM_HOME", checkElmHome(packagesPath)),
+              orFail("packages", checkPackages(config, packagesPath)),
+              orFail("cached repositories", checkCachedRepos(config)),
+              orFail("artifacts", checkArtifacts(packageDirs)),
+              orFail("elm-stuff", checkElmStuff(config, packageDirs)),
+            ])
+          )
+      })
+      .orElse((error) =>
+        diagnose(runtime, error).andThen((diagnostic) =>
+          orFail("ELM_HOME", checkElmHome(toPackagesPath("elm", runtime.environment.elmHome.elmHome))).map(
+            (elmHome) => [check("elm.sideload.json", "fail", diagnostic.title, diagnostic.hint), elmHome]
+          )
+        )
+      )
+
+  const formatCheck = (doctorCheck: DoctorCheck): string[] => [
+    `  ${doctorCheck.status.padEnd(4)}  ${doctorCheck.name}: ${doctorCheck.message}`,
+    ...(doctorCheck.status === "pass" || doctorCheck.hint === null ? [] : [`        hint: ${doctorCheck.hint}`]),
+  ]
+
+  const report = (checks: DoctorCheck[]): ResultAsync<ExecutionResult, CommandError> => {
+    const count = (status: DoctorCheck["status"]) => checks.filter((c) => c.status === status).length
+    const lines = [
+      "elm-sideload doctor:",
+      "",
+      ...checks.flatMap(formatCheck),
+      "",
+      `${count("pass")} passed, ${count("warn")} warnings, ${count("fail")} failed`,
+    ]
+
+    if (count("fail") > 0) {
+      runtime.userIO.log(lines.join("\n"))
+      return errAsync({ type: "doctorFoundProblems", checks } as const)
+    }
+
+    return okAsync({ message: lines.join("\n"), checks })
+  }
+
+  return ResultAsync.combine([orFail("git", checkGit()), orFail("gitignore", checkGitignore())])
+    .andThen(([git, gitignore]) => checkWithConfig().map((checks) => [git, ...checks, gitignore]))
+    .andThen(report)
+}
+
+// =============================================================================
+// Export Command
+// =============================================================================
+
+// Zokka overrides dependencies itself, per project, so the sideloads are written into the project rather than ELM_HOME
+const zokkaPackagesDir = "zokka-packages"
+
+function executeExport(runtime: Runtime, format: ExportFormat): ResultAsync<ExecutionResult, CommandError> {
+  switch (format) {
+    case "zokka":
+      return exportZokka(runtime)
+  }
+}
+
+function exportZokka(runtime: Runtime): ResultAsync<ExecutionResult, CommandError> {
+  // The override is named after the package in the sideload's own elm.json, which only differs from the package it
+  // replaces for sideloads configured with --allow-mismatch
+  const exportSideload = (
+    sideload: SideloadRegistration,
+    cacheDir: string,
+    elmHomePackagesPath: string
+  ): ResultAsync<ZokkaOverride, CommandError> =>
+    prepareSideloadSource(runtime, sideload, cacheDir, elmHomePackagesPath).andThen(({ sourcePath }) =>
+      loadPackageElmJson(runtime, sourcePath).andThen((packageElmJson) => {
+        const targetDir = path.join(
+          runtime.environment.cwd,
+          zokkaPackagesDir,
+          packageElmJson.name,
+          packageElmJson.version
+        )
+        runtime.userIO.log(`Copying ${sourcePath} to ${targetDir}`)
+
+        return runtime.fileSystem
+          .deleteDir(targetDir)
+          .orElse(() => okAsync(undefined))
+          .andThen(() => runtime.fileSystem.mkdir(targetDir))
+          .andThen(() => runtime.fileSystem.copyDirectoryRecursive(sourcePath, targetDir))
+          .map(() => ({
+            "original-package-name": sideload.originalPackageName,
+            "original-package-version": sideload.originalPackageVersion,
+            "override-package-name": packageElmJson.name,
+            "override-package-version": packageElmJson.version,
+          }))
+      })
+    )
+
+  // Each project gets the overrides for the package versions it depends on; overrides for anything else, which
+  // elm.sideload.json doesn't know about, are kept
+  const writeOverrides = (elmJsonPath: string, overrides: ZokkaOverride[]): ResultAsync<void, CommandError> =>
+    loadElmJson(runtime, elmJsonPath).andThen((elmJson) => {
+      const relevant = overrides.filter(
+        (override) =>
+          getPackageVersion(elmJson, override["original-package-name"]) === override["original-package-version"]
+      )
+      const isReplaced = (existing: ZokkaOverride): boolean =>
+        relevant.some(
+          (override) =>
+            override["original-package-name"] === existing["original-package-name"] &&
+            override["original-package-version"] === existing["original-package-version"]
+        )
+
+      return readZokkaOverrides(elmJson).asyncAndThen((existing) => {
+        const updated = {
+          ...elmJson,
+          "zokka-package-overrides": [...existing.filter((o) => !isReplaced(o)), ...relevant],
+        }
+        return runtime.fileSystem.writeFile(
+          path.resolve(runtime.environment.cwd, elmJsonPath),
+          JSON.stringify(updated, null, 4) + "\n"
+        )
+      })
+    })
+
+  const report = (config: SideloadConfig, overrides: ZokkaOverride[]): ExecutionResult => ({
+    message: [
+      `Exported ${overrides.length} sideloads as Zokka overrides:`,
+      "",
+      ...overrides.map(
+        (override) =>
+          `  ${override["original-package-name"]} ${override["original-package-version"]} -> ${path.join(zokkaPackagesDir, override["override-package-name"], override["override-package-version"])}`
+      ),
+      "",
+      `Updated zokka-package-overrides in ${config.elmJsonPaths.join(", ")}`,
+    ].join("\n"),
+  })
+
+  return loadSideloadConfig(runtime).andThen((config) =>
+    resolvePackagesPath(runtime, config).asyncAndThen((packagesPath) => {
+      const cacheDir = path.join(runtime.environment.cwd, ".elm.sideload.cache")
+      return runtime.fileSystem
+        .mkdir(cacheDir)
+        .andThen(() =>
+          mapByRepository(runtime, cacheDir, config.sideloads, "ifMissing", (sideload) =>
+            exportSideload(sideload, cacheDir, packagesPath).mapErr(inSideload(sideload))
+          )
+        )
+        .andThen((overrides) =>
+          config.elmJsonPaths
+            .reduce(
+              (acc, elmJsonPath) => acc.andThen(() => writeOverrides(elmJsonPath, overrides)),
+              okAsync<void, CommandError>(undefined)
+            )
+            .map(() => report(config, overrides))
+        )
+    })
+  )
+}
+
+// =============================================================================
+// Utility Functions
+// =============================================================================
+
+// The overrides already in an elm.json, which export keeps, so they have to be overrides it understands
+function readZokkaOverrides(elmJson: ElmJson): Result<ZokkaOverride[], CommandError> {
+  const overrides: unknown = "zokka-package-overrides" in elmJson ? elmJson["zokka-package-overrides"] : []
+  return Array.isArray(overrides) && overrides.every(isZokkaOverride) ? ok(overrides) : err("invalidZokkaOverrides")
+}
+
+function isZokkaOverride(value: unknown): value is ZokkaOverride {
+  const fields = [
+    "original-package-name",
+    "original-package-version",
+    "override-package-name",
+    "override-package-version",
+  ]
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    fields.every((field) => typeof (value as Record<string, unknown>)[field] === "string")
+  )
+}
+
+// Every Elm project keeps its build cache next to its own elm.json
+const toProjectCachePaths = (runtime: Runtime, config: SideloadConfig): string[] => [
+  ...new Set(
+    config.elmJsonPaths.flatMap((elmJsonPath) =>
+      toCompilerCachePaths(config.compiler, path.dirname(path.resolve(runtime.environment.cwd, elmJsonPath)))
+    )
+  ),
+]
+
+const bustElmCache = (runtime: Runtime, config: SideloadConfig): ResultAsync<void, CommandError> => {
+  const bustOne = (cachePath: string): ResultAsync<void, CommandError> =>
+    runtime.fileSystem.exists(cachePath).andThen((exists) => {
+      if (exists) {
+        runtime.userIO.log(`Deleting ${cachePath} to bust compilation cache...`)
+        return runtime.fileSystem.deleteDir(cachePath)
+      } else {
+        return okAsync(undefined)
+      }
+    })
+
+  return toProjectCachePaths(runtime, config)
+    .reduce<ResultAsync<void, CommandError>>(
+      (acc, cachePath) => acc.andThen(() => bustOne(cachePath)),
+      okAsync(undefined)
+    )
+    .mapErr(() => "writeError" as const)
+}
+
+function inSideload(sideload: SideloadRegistration): (error: CommandError) => CommandError {
+  return (error) => ({
+    type: "sideloadFailed",
+    packageName: sideload.originalPackageName,
+    version: sideload.originalPackageVersion,
+    error,
+  })
+}
+
+function resolvePackagesPath(runtime: Runtime, config: SideloadConfig): Result<string, CommandError> {
+  const { elmHome } = runtime.environment
+  return config.requireElmHome && elmHome.type !== "fromShellEnv"
+    ? err("noElmHome")
+    : ok(toPackagesPath(config.compiler, elmHome.elmHome))
+}
+
+function describeSource(source: SideloadSource): string {
+  switch (source.type) {
+    case "github":
+    case "git":
+      return source.subdir ? `${source.url} (${source.subdir})` : source.url
+    case "relative":
+    case "archive":
+      return source.path
+    case "patches":
+      const base = source.base.type === "official" ? "official package" : describeSource(source.base)
+      return `${base} + ${source.patches.join(", ")}`
+  }
+}
+
+function pinnedSha(source: SideloadSource): string | null {
+  switch (source.type) {
+    case "github":
+    case "git":
+      return source.pinTo.sha
+    case "patches":
+      return source.base.type === "official" ? null : pinnedSha(source.base)
+    default:
+      return null
+  }
+}
+
+function toPackageDir(elmHomePackagesPath: string, packageName: string, version: string): Result<string, CommandError> {
+  const [author, name] = packageName.split("/")
+  return author && name ? ok(path.join(elmHomePackagesPath, author, name, version)) : err("invalidPackageName")
+}
+
+// Picks the sideloads for the packages that match any of `patterns`, where `*` stands for any part of a name and `?`
+// for a single character; no patterns means every sideload. A pattern that matches nothing is most likely a typo, so
+// it's an error rather than a quiet no-op
+function selectSideloads(
+  sideloads: SideloadRegistration[],
+  patterns: string[]
+): Result<SideloadRegistration[], CommandError> {
+  if (patterns.length === 0) {
+    return ok(sideloads)
+  }
+
+  const matchers = patterns.map((pattern) => ({ pattern, regex: toPackageRegex(pattern) }))
+  const unknown = matchers.filter(({ regex }) => !sideloads.some((s) => regex.test(s.originalPackageName)))
+
+  return unknown.length > 0
+    ? err({
+        type: "unknownPackages",
+        patterns: unknown.map(({ pattern }) => pattern),
+        configured: [...new Set(sideloads.map((s) => s.originalPackageName))].sort(),
+      })
+    : ok(sideloads.filter((s) => matchers.some(({ regex }) => regex.test(s.originalPackageName))))
+}
+
+// Wildcards never match the slash between author and name, so "elm/*" doesn't reach into another author's packages
+function toPackageRegex(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((char) => (char === "*" ? "[^/]*" : char === "?" ? "[^/]" : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("")
+  return new RegExp(`^${source}$`)
+}
+
+// Linking only applies to relative sources; for anything else, `--link` and `link` are ignored
+function isLinked(sideload: SideloadRegistration, linkAll: boolean): boolean {
+  return sideload.sideloadedPackage.type === "relative" && (linkAll || sideload.link === true)
+}
+
+// Removes the src link of a linked install on its own first, so that deleting the package can never reach into the
+// source folder it points at
+function deleteInstalledPackage(runtime: Runtime, packageDir: string): ResultAsync<void, CommandError> {
+  const srcPath = path.join(packageDir, "src")
+
+  return runtime.fileSystem
+    .isSymlink(srcPath)
+    .andThen((isLink) => (isLink ? runtime.fileSystem.deleteFile(srcPath) : okAsync(undefined)))
+    .andThen(() => runtime.fileSystem.deleteDir(packageDir))
+}
+
+function getInstalledState(runtime: Runtime, packageDir: string): ResultAsync<InstalledState, CommandError> {
+  return runtime.fileSystem
+    .exists(packageDir)
+    .andThen((exists) =>
+      exists
+        ? runtime.fileSystem
+            .exists(path.join(packageDir, ".elm-sideload"))
+            .andThen((hasMarker) =>
+              hasMarker
+                ? runtime.fileSystem
+                    .isSymlink(path.join(packageDir, "src"))
+                    .map((isLink): InstalledState => (isLink ? "linked" : "sideloaded"))
+                : okAsync<InstalledState, CommandError>("official")
+            )
+        : okAsync<InstalledState, CommandError>("missing")
+    )
+}
+
+function buildInstallPlan(
+  runtime: Runtime,
+  sideloads: SideloadRegistration[],
+  elmHomePackagesPath: string
+): ResultAsync<InstallPlanEntry[], CommandError> {
+  const planEntry = (sideload: SideloadRegistration): ResultAsync<InstallPlanEntry, CommandError> =>
+    toPackageDir(elmHomePackagesPath, sideload.originalPackageName, sideload.originalPackageVersion).asyncAndThen(
+      (targetDir) =>
+        getInstalledState(runtime, targetDir).map((installedState) => ({
+          sideload,
+          source: describeSource(sideload.sideloadedPackage),
+          sha: pinnedSha(sideload.sideloadedPackage),
+          targetDir,
+          installedState,
+        }))
+    )
+
+  return ResultAsync.combine(sideloads.map(planEntry))
+}
+
+// Walks `author/name/version` under ELM_HOME's packages directory, returning every package that carries a marker file
+function findSideloadedPackages(
+  runtime: Runtime,
+  elmHomePackagesPath: string
+): ResultAsync<{ packageName: string; version: string }[], CommandError> {
+  const listOrEmpty = (dir: string): ResultAsync<string[], CommandError> =>
+    runtime.fileSystem.readDirectory(dir).orElse(() => okAsync<string[], CommandError>([]))
+
+  const flatten = <T>(nested: T[][]): T[] => nested.reduce<T[]>((acc, xs) => [...acc, ...xs], [])
+
+  return listOrEmpty(elmHomePackagesPath)
+    .andThen((authors) =>
+      ResultAsync.combine(
+        authors.map((author) =>
+          listOrEmpty(path.join(elmHomePackagesPath, author)).andThen((names) =>
+            ResultAsync.combine(
+              names.map((name) =>
+                listOrEmpty(path.join(elmHomePackagesPath, author, name)).map((versions) =>
+                  versions.map((version) => ({ packageName: `${author}/${name}`, version }))
+                )
+              )
+            ).map(flatten)
+          )
+        )
+      ).map(flatten)
+    )
+    .andThen((candidates) =>
+      ResultAsync.combine(
+        candidates.map((candidate) =>
+          runtime.fileSystem
+            .exists(path.join(elmHomePackagesPath, candidate.packageName, candidate.version, ".elm-sideload"))
+            .map((hasMarker) => (hasMarker ? [candidate] : []))
+        )
+      ).map(flatten)
+    )
+}
+
+// Makes a sideload's files available on disk - cloning or updating the cache and checking out the pinned SHA for git
+// sources - and returns where they are, along with the commit they were taken from
+function prepareSideloadSource(
+  runtime: Runtime,
+  sideload: SideloadRegistration,
+  cacheDir: string,
+  elmHomePackagesPath: string
+): ResultAsync<PreparedSource, CommandError> {
+  const { sideloadedPackage } = sideload
+
+  switch (sideloadedPackage.type) {
+    case "github":
+    case "git":
+      const { url, pinTo } = sideloadedPackage
+
+      return toCachedRepoPath(cacheDir, url).asyncAndThen((cachedRepoPath) =>
+        fetchRepository(runtime, url, cachedRepoPath, [pinTo.sha], "ifMissing")
+          .andThen(() => runtime.gitIO.shaExists(cachedRepoPath, pinTo.sha))
+          .andThen((shaExists) => {
+            if (!shaExists) {
+              return runtime.gitIO.getRecentCommits(cachedRepoPath, 10).andThen((commits) =>
+                err({
+                  type: "shaNotFound",
+                  sha: pinTo.sha,
+                  recentCommits: commits,
+                } as const)
+              )
+            }
+            return ok(undefined)
+          })
+          .andThen(() => checkOutWorktree(runtime, cacheDir, cachedRepoPath, pinTo.sha))
+          // For monorepos, only the package's own subtree is copied
+          .andThen((worktreeDir) =>
+            checkSubdirHasElmJson(runtime, worktreeDir, sideloadedPackage.subdir).map(() => worktreeDir)
+          )
+          .andThen((worktreeDir) =>
+            runtime.gitIO.getCurrentSha(worktreeDir).map((resolvedCommit) => ({
+              sourcePath: sideloadedPackage.subdir ? path.join(worktreeDir, sideloadedPackage.subdir) : worktreeDir,
+              resolvedCommit,
+            }))
+          )
+      )
+
+    case "relative":
+      return okAsync({
+        sourcePath: path.resolve(runtime.environment.cwd, sideloadedPackage.path),
+        resolvedCommit: null,
+      })
+
+    case "archive":
+      const archivePath = path.resolve(runtime.environment.cwd, sideloadedPackage.path)
+      const extractDir = path.join(cacheDir, "_archives", sideloadedPackage.sha256)
+
+      return runtime.fileSystem
+        .hashFile(archivePath)
+        .andThen((checksum) =>
+          checksum === sideloadedPackage.sha256
+            ? okAsync(undefined)
+            : errAsync<void, CommandError>("archiveChecksumMismatch")
+        )
+        .andThen(() => runtime.fileSystem.exists(extractDir))
+        .andThen((extracted) => (extracted ? okAsync(undefined) : extractOnce(runtime, archivePath, extractDir)))
+        .andThen(() => stripSingleTopLevelDir(runtime, extractDir))
+        .map((sourcePath) => ({ sourcePath, resolvedCommit: null }))
+
+    case "patches":
+      const { base, patches } = sideloadedPackage
+      const { originalPackageName, originalPackageVersion } = sideload
+
+      // The unpatched base: the backup of the official package, which is taken first if it doesn't exist yet, so
+      // that `unload` can always revert to it; or any other source, prepared as usual
+      const prepareBase = (): ResultAsync<PreparedSource, CommandError> => {
+        if (base.type !== "official") {
+          return prepareSideloadSource(runtime, { ...sideload, sideloadedPackage: base }, cacheDir, elmHomePackagesPath)
+        }
+
+        return toPackageDir(elmHomePackagesPath, originalPackageName, originalPackageVersion).asyncAndThen(
+          (packageDir) => {
+            const [author, name] = originalPackageName.split("/")
+            const backupDir = toBackupDir(elmHomePackagesPath, author, name, originalPackageVersion)
+            return backupOfficialPackage(runtime, packageDir, backupDir)
+              .andThen(() => runtime.fileSystem.exists(backupDir))
+              .andThen((hasBackup) =>
+                hasBackup
+                  ? okAsync({ sourcePath: backupDir, resolvedCommit: null })
+                  : errAsync<PreparedSource, CommandError>("noPristineOfficialPackage")
+              )
+          }
+        )
+      }
+
+      const patchedDir = path.join(cacheDir, "_patched", ...originalPackageName.split("/"), originalPackageVersion)
+
+      // Compiled artifacts from the base don't describe the patched code, so they must not be carried over
+      const applyPatches = (): ResultAsync<void, CommandError> =>
+        deleteArtifacts(runtime, patchedDir, knownArtifactFiles).andThen(() =>
+          patches.reduce<ResultAsync<void, CommandError>>(
+            (acc, patch) =>
+              acc.andThen(() => runtime.gitIO.applyPatch(patchedDir, path.resolve(runtime.environment.cwd, patch))),
+            okAsync(undefined)
+          )
+        )
+
+      return prepareBase().andThen(({ sourcePath, resolvedCommit }) =>
+        runtime.fileSystem
+          .deleteDir(patchedDir)
+          .andThen(() => runtime.fileSystem.mkdir(patchedDir))
+          .andThen(() => runtime.fileSystem.copyDirectoryRecursive(sourcePath, patchedDir))
+          .andThen(applyPatches)
+          .map(() => ({ sourcePath: patchedDir, resolvedCommit }))
+      )
+
+    default:
+      const _: never = sideloadedPackage
+      return errAsync("invalidSideloadConfig")
+  }
+}
+
+// Clones are fetched into and, with `remove --prune`, deleted from this path, so it must never leave the cache
+function toCachedRepoPath(cacheDir: string, url: string): Result<string, CommandError> {
+  return parseRemoteUrl(url).andThen((remote) => {
+    const repoPath = path.join(cacheDir, ...toCacheKey(remote))
+    return isInsideDir(cacheDir, repoPath)
+      ? ok(repoPath)
+      : err({ type: "invalidRemoteUrl", url, reason: "it would be cached outside .elm.sideload.cache" } as const)
+  })
+}
+
+function isInsideDir(dir: string, candidate: string): boolean {
+  const relative = path.relative(path.resolve(dir), path.resolve(candidate))
+  return relative !== "" && !relative.startsWith("..") && !path.isAbsolute(relative)
+}
+
+// Clones the repository into the cache if it isn't there yet; otherwise fetches, once, as `policy` says
+function fetchRepository(
+  runtime: Runtime,
+  url: string,
+  repoDir: string,
+  shas: string[],
+  policy: FetchPolicy
+): ResultAsync<void, CommandError> {
+  const hasEverySha = (): ResultAsync<boolean, CommandError> =>
+    ResultAsync.combine(shas.map((sha) => runtime.gitIO.shaExists(repoDir, sha))).map((found) => found.every(Boolean))
+
+  return runtime.fileSystem
+    .exists(repoDir)
+    .andThen((exists) =>
+      !exists
+        ? runtime.gitIO.clone(url, repoDir)
+        : policy === "always"
+          ? runtime.gitIO.pull(repoDir)
+          : hasEverySha().andThen((hasAll) => (hasAll ? okAsync(undefined) : runtime.gitIO.pull(repoDir)))
+    )
+}
+
+// Each pinned SHA is checked out into its own worktree of the cached clone, so sideloads pinned to different commits
+// of one repository never share a working directory. An existing worktree is reused, unless someone has edited it
+function checkOutWorktree(
+  runtime: Runtime,
+  cacheDir: string,
+  repoDir: string,
+  sha: string
+): ResultAsync<string, CommandError> {
+  const worktreeDir = path.join(cacheDir, "_worktrees", path.relative(cacheDir, repoDir), sha)
+
+  return runtime.fileSystem
+    .exists(worktreeDir)
+    .andThen((exists) =>
+      !exists
+        ? runtime.gitIO.addWorktree(repoDir, worktreeDir, sha)
+        : runtime.gitIO.isClean(worktreeDir).andThen((isClean) =>
+            isClean
+              ? okAsync(undefined)
+              : runtime.gitIO.getRecentCommits(worktreeDir, 5).andThen((commits) =>
+                  err({
+                    type: "dirtyRepo",
+                    status: `Repository at ${worktreeDir} has uncommitted changes. Recent commits:\n${commits.join("\n")}`,
+                  } as const)
+                )
+          )
+    )
+    .map(() => worktreeDir)
+}
+
+// The git source that a sideload's files ultimately come from, if any
+function toGitSource(source: SideloadSource): GitSideloadSource | null {
+  const base = source.type === "patches" ? source.base : source
+  return base.type === "github" || base.type === "git" ? base : null
+}
+
+// Runs `task` for every sideload, returning the results in the same order. Sideloads that share a cached clone are
+// handled one after another, after fetching that clone once, since git can't work on one repository from several
+// processes at a time; and at most `maxConcurrentRepositories` repositories are worked on at once.
+function mapByRepository<S extends SideloadRegistration, T>(
+  runtime: Runtime,
+  cacheDir: string,
+  sideloads: S[],
+  policy: FetchPolicy,
+  task: (sideload: S) => ResultAsync<T, CommandError>
+): ResultAsync<T[], CommandError> {
+  const repositoryOf = (sideload: SideloadRegistration): string | null => {
+    const gitSource = toGitSource(sideload.sideloadedPackage)
+    return gitSource ? toCachedRepoPath(cacheDir, gitSource.url).unwrapOr(null) : null
+  }
+
+  // Sideloads without a repository (or with a URL that doesn't parse, which `task` reports) each get a group of their own
+  const groups = [
+    ...sideloads
+      .reduce((acc, sideload, index) => {
+        const key = repositoryOf(sideload) ?? `#${index}`
+        return acc.set(key, [...(acc.get(key) ?? []), index])
+      }, new Map<string, number[]>())
+      .entries(),
+  ]
+
+  const runGroup = ([repoDir, indices]: [string, number[]]): ResultAsync<[number, T][], CommandError> => {
+    const gitSources = indices
+      .map((index) => toGitSource(sideloads[index].sideloadedPackage))
+      .filter((source): source is GitSideloadSource => source !== null)
+    const fetchOnce =
+      gitSources.length === 0
+        ? okAsync<void, CommandError>(undefined)
+        : fetchRepository(
+            runtime,
+            gitSources[0].url,
+            repoDir,
+            gitSources.map((source) => source.pinTo.sha),
+            policy
+          ).mapErr(inSideload(sideloads[indices[0]]))
+
+    return indices.reduce<ResultAsync<[number, T][], CommandError>>(
+      (acc, index) =>
+        acc.andThen((done) => task(sideloads[index]).map((result): [number, T][] => [...done, [index, result]])),
+      fetchOnce.map(() => [])
+    )
+  }
+
+  return mapWithConcurrency(groups, maxConcurrentRepositories, runGroup).map((results) =>
+    results
+      .reduce<[number, T][]>((acc, group) => [...acc, ...group], [])
+      .sort(([a], [b]) => a - b)
+      .map(([, result]) => result)
+  )
+}
+
+// Splits `items` into `limit` lanes that run side by side, each working through its items one at a time
+function mapWithConcurrency<T, U>(
+  items: T[],
+  limit: number,
+  task: (item: T) => ResultAsync<U, CommandError>
+): ResultAsync<U[], CommandError> {
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, (_, lane) =>
+    items.reduce<ResultAsync<[number, U][], CommandError>>(
+      (acc, item, index) =>
+        index % limit !== lane
+          ? acc
+          : acc.andThen((done) => task(item).map((result): [number, U][] => [...done, [index, result]])),
+      okAsync([])
+    )
+  )
+
+  return ResultAsync.combine(lanes).map((results) =>
+    results
+      .reduce<[number, U][]>((acc, lane) => [...acc, ...lane], [])
+      .sort(([a], [b]) => a - b)
+      .map(([, result]) => result)
+  )
+}
+
+// Archives from GitHub's "download zip" button and most build pipelines wrap everything in a single top-level folder
+// Archives are extracted into a directory of their own and only then renamed to `extractDir`, so that a directory
+// named for a checksum always holds the complete archive, and sideloads that share an archive never extract it over
+// each other. When two extractions race, the one that renames first wins and the other is thrown away
+function extractOnce(runtime: Runtime, archivePath: string, extractDir: string): ResultAsync<void, CommandError> {
+  const partialDir = `${extractDir}.partial-${randomUUID()}`
+  const discardPartial = () => runtime.fileSystem.deleteDir(partialDir).orElse(() => okAsync(undefined))
+
+  return runtime.fileSystem
+    .mkdir(partialDir)
+    .andThen(() => runtime.fileSystem.extractArchive(archivePath, partialDir))
+    .andThen(() =>
+      runtime.fileSystem
+        .rename(partialDir, extractDir)
+        .orElse((error) =>
+          runtime.fileSystem
+            .exists(extractDir)
+            .andThen((extracted) => (extracted ? discardPartial() : errAsync<void, CommandError>(error)))
+        )
+    )
+    .orElse((error) => discardPartial().andThen(() => errAsync(error)))
+}
+
+function stripSingleTopLevelDir(runtime: Runtime, extractDir: string): ResultAsync<string, CommandError> {
+  return runtime.fileSystem.readDirectory(extractDir).andThen((entries) => {
+    if (entries.length !== 1) {
+      return okAsync(extractDir)
+    }
+
+    const onlyEntry = path.join(extractDir, entries[0])
+    return runtime.fileSystem
+      .readDirectory(onlyEntry)
+      .map(() => onlyEntry)
+      .orElse(() => okAsync(extractDir))
+  })
+}
+
+function checkSubdirHasElmJson(
+  runtime: Runtime,
+  repoDir: string,
+  subdir: string | undefined
+): ResultAsync<void, CommandError> {
+  if (subdir === undefined) {
+    return okAsync(undefined)
+  }
+
+  return runtime.fileSystem
+    .exists(path.join(repoDir, subdir, "elm.json"))
+    .andThen((exists) => (exists ? okAsync(undefined) : errAsync("noElmJsonInSubdir" as const)))
+}
+
+function resolveInputToSource(runtime: Runtime, input: ConfigureInput): ResultAsync<ConfigureSource, CommandError> {
+  if (input.type !== "patches") {
+    return resolveBaseInputToSource(runtime, input)
+  }
+
+  const checkPatchExists = (patch: string): ResultAsync<void, CommandError> =>
+    runtime.fileSystem
+      .exists(path.resolve(runtime.environment.cwd, patch))
+      .andThen((exists) => (exists ? okAsync(undefined) : errAsync("patchNotFound" as const)))
+
+  const { base, patches } = input
+
+  return ResultAsync.combine(patches.map(checkPatchExists))
+    .andThen(() =>
+      base.type === "official"
+        ? okAsync<{ type: "official" } | BaseSideloadSource, CommandError>(base)
+        : resolveBaseInputToSource(runtime, base)
+    )
+    .map((resolvedBase) => ({ type: "patches" as const, base: resolvedBase, patches }))
+}
+
+function resolveBaseInputToSource(
+  runtime: Runtime,
+  input: BaseConfigureInput
+): ResultAsync<BaseSideloadSource, CommandError> {
+  switch (input.type) {
+    case "relative":
+      return okAsync(input)
+
+    case "archive":
+      return runtime.fileSystem
+        .hashFile(path.resolve(runtime.environment.cwd, input.path))
+        .map((sha256) => ({ type: "archive" as const, path: input.path, sha256 }))
+
+    case "github":
+    case "git":
+      const { type, url, pinTo } = input
+      const cacheDir = path.join(runtime.environment.cwd, ".elm.sideload.cache")
+
+      // `--github` only accepts github.com remotes; anything else should use `--git`
+      const toTargetDir = (): Result<string, CommandError> =>
+        parseRemoteUrl(url).andThen((remote) =>
+          type === "github" && !isGithubRemote(remote)
+            ? err("invalidGithubUrl" as const)
+            : ok(path.join(cacheDir, ...toCacheKey(remote)))
+        )
+
+      // The clone is shared with every other sideload from the same repository, so it is only fetched into, and the
+      // pinned commit gets a worktree of its own, like install does
+      const fetchAndPin = (repoDir: string): ResultAsync<{ sha: string; branch?: string }, CommandError> => {
+        if ("sha" in pinTo) {
+          const sha = pinTo.sha
+          return fetchRepository(runtime, url, repoDir, [sha], "ifMissing").map(() => ({ sha }))
+        }
+
+        // A branch has to be fetched every time to find its current head
+        const branch = pinTo.branch
+        return fetchRepository(runtime, url, repoDir, [], "always")
+          .andThen(() => runtime.gitIO.resolveBranchToSha(repoDir, branch))
+          .map((sha) => ({ sha, branch }))
+      }
+
+      return toTargetDir().asyncAndThen((repoDir) =>
+        (input.subdir === undefined ? ok(undefined) : normalizeSubdir(input.subdir)).asyncAndThen((subdir) =>
+          fetchAndPin(repoDir).andThen((resolvedPin) =>
+            checkOutWorktree(runtime, cacheDir, repoDir, resolvedPin.sha)
+              .andThen((worktreeDir) => checkSubdirHasElmJson(runtime, worktreeDir, subdir))
+              .map(() => ({
+                type,
+                url,
+                pinTo: resolvedPin,
+                ...(subdir === undefined ? {} : { subdir }),
+              }))
+          )
+        )
+      )
+
+    default:
+      const _: never = input
+      throw new Error(`Unhandled ConfigureInput type: ${(input as any).type}`)
+  }
+}
+
+// Backups live next to the packages directory rather than inside it, so that the compiler never sees them
+function toBackupDir(elmHomePackagesPath: string, author: string, name: string, version: string): string {
+  return path.join(path.dirname(elmHomePackagesPath), "elm-sideload-backups", author, name, version)
+}
+
+// Snapshots the pristine official package the first time a sideload overwrites it; if the target already holds a
+// sideload or a backup already exists, there is nothing pristine left to save
+function backupOfficialPackage(
+  runtime: Runtime,
+  packageDir: string,
+  backupDir: string
+): ResultAsync<void, CommandError> {
+  return getInstalledState(runtime, packageDir).andThen((state) =>
+    state !== "official"
+      ? okAsync(undefined)
+      : runtime.fileSystem.exists(backupDir).andThen((hasBackup) => {
+          if (hasBackup) {
+            return okAsync(undefined)
+          }
+
+          runtime.userIO.log(`Backing up official package at ${packageDir} to ${backupDir}`)
+          return runtime.fileSystem
+            .mkdir(backupDir)
+            .andThen(() => runtime.fileSystem.copyDirectoryRecursive(packageDir, backupDir))
+        })
+  )
+}
+
+// Puts the official package back in place of a sideload: from the backup that install took, if there is one, otherwise
+// by deleting the sideload so that the compiler downloads the official package again
+function restoreOfficialPackage(
+  runtime: Runtime,
   packageName: string,
   version: string,
   elmHomePackagesPath: string
-): ResultAsync<string, CommandError> {
+): ResultAsync<AppliedChange, CommandError> {
   const [author, name] = packageName.split("/")
   if (!author || !name) {
     return errAsync("invalidPackageName")
   }
 
-  const targetDir = path.join(elmHomePackagesPath, author, name, version)
-  console.log(`Copying ${sourcePath} to ${targetDir}`)
+  const packageDir = path.join(elmHomePackagesPath, author, name, version)
+  const backupDir = toBackupDir(elmHomePackagesPath, author, name, version)
 
-  // Create target directory and copy all files from source to target
-  return (
-    runtime.fileSystem
-      // cache-bust the target by deleting `artifacts.dat...`
-      .deleteFile(path.join(targetDir, "artifacts.dat"))
-      .orElse(() => okAsync())
-      // ... or by deleting `artifacts.x.dat for the lamdera compiler`
-      .andThen(() => runtime.fileSystem.deleteFile(path.join(targetDir, "artifacts.x.dat")))
-      .orElse(() => okAsync())
-      .andThen(() => runtime.fileSystem.mkdir(targetDir))
-      .andThen(() => runtime.fileSystem.copyDirectoryRecursive(sourcePath, targetDir))
-      .andThen(() => runtime.fileSystem.writeFile(path.join(targetDir, ".elm-sideload"), ""))
-      .map(() => targetDir)
-      .mapErr((err) => {
-        console.error(err)
-        return "packageCopyFailed" as const
+  const restoreFromBackup = (): ResultAsync<AppliedChange, CommandError> => {
+    runtime.userIO.log(`Restoring official package at ${packageDir} from backup at ${backupDir}...`)
+
+    return deleteInstalledPackage(runtime, packageDir)
+      .andThen(() => runtime.fileSystem.mkdir(packageDir))
+      .andThen(() => runtime.fileSystem.copyDirectoryRecursive(backupDir, packageDir))
+      .map(() => ({
+        packageName,
+        action: "restored" as const,
+        source: backupDir,
+      }))
+  }
+
+  const deleteForRedownload = (): ResultAsync<AppliedChange, CommandError> => {
+    runtime.userIO.log(
+      `Deleting sideloaded package at ${packageDir} to force the compiler to re-download the package...`
+    )
+
+    return runtime.fileSystem
+      .exists(packageDir)
+      .andThen((exists) => {
+        if (exists) {
+          return deleteInstalledPackage(runtime, packageDir)
+        } else {
+          return okAsync(undefined)
+        }
       })
+      .map(() => ({
+        packageName,
+        action: "restored" as const,
+        source: "official package repository",
+      }))
+  }
+
+  return runtime.fileSystem
+    .exists(backupDir)
+    .andThen((hasBackup) => (hasBackup ? restoreFromBackup() : deleteForRedownload()))
+    .mapErr((cause): CommandError => ({ type: "unloadFailed", cause }))
+}
+
+// Install builds every package in the staging directory before moving any of them into ELM_HOME, and keeps whatever
+// they replace in the rollback directory until the whole install has succeeded. Both sit next to the packages
+// directory, so that moving between them is a rename on the same file system.
+const toStagingRoot = (elmHomePackagesPath: string): string =>
+  path.join(path.dirname(elmHomePackagesPath), "elm-sideload-staging")
+
+const toRollbackRoot = (elmHomePackagesPath: string): string =>
+  path.join(path.dirname(elmHomePackagesPath), "elm-sideload-rollback")
+
+// Missing artifacts are fine: the compiler may never have built the package
+function deleteArtifacts(runtime: Runtime, dir: string, artifactFiles: string[]): ResultAsync<void, CommandError> {
+  return artifactFiles.reduce(
+    (acc, artifact) =>
+      acc.andThen(() => runtime.fileSystem.deleteFile(path.join(dir, artifact)).orElse(() => okAsync(undefined))),
+    okAsync<void, CommandError>(undefined)
+  )
+}
+
+function stagePackage(
+  runtime: Runtime,
+  sourcePath: string,
+  packageName: string,
+  version: string,
+  elmHomePackagesPath: string,
+  linked: boolean,
+  staleArtifactFiles: string[]
+): ResultAsync<StagedPackage, CommandError> {
+  const [author, name] = packageName.split("/")
+  if (!author || !name) {
+    return errAsync("invalidPackageName")
+  }
+
+  const staged: StagedPackage = {
+    packageName,
+    version,
+    stagingDir: path.join(toStagingRoot(elmHomePackagesPath), author, name, version),
+    targetDir: path.join(elmHomePackagesPath, author, name, version),
+    backupDir: toBackupDir(elmHomePackagesPath, author, name, version),
+    rollbackDir: path.join(toRollbackRoot(elmHomePackagesPath), author, name, version),
+  }
+  const { stagingDir } = staged
+
+  // cache-bust the package by deleting the artifacts that the compilers built from the previous code
+  const cacheBustStaged = (): ResultAsync<void, CommandError> =>
+    deleteArtifacts(runtime, stagingDir, staleArtifactFiles)
+
+  // Everything but src is copied as usual - the elm.json in particular - and src becomes a link to the source's own
+  const copyAndLink = (): ResultAsync<void, CommandError> => {
+    runtime.userIO.log(`Linking ${path.join(sourcePath, "src")} into ${stagingDir}`)
+
+    const copyEntries = (entries: string[]): ResultAsync<void, CommandError> =>
+      entries.reduce(
+        (acc, entry) =>
+          acc.andThen(() =>
+            runtime.fileSystem.copyDirectoryRecursive(path.join(sourcePath, entry), path.join(stagingDir, entry))
+          ),
+        okAsync<void, CommandError>(undefined)
+      )
+
+    return runtime.fileSystem
+      .readDirectory(sourcePath)
+      .andThen((entries) => copyEntries(entries.filter((entry) => entry !== "src")))
+      .andThen(() => runtime.fileSystem.symlink(path.join(sourcePath, "src"), path.join(stagingDir, "src")))
+  }
+
+  const copy = (): ResultAsync<void, CommandError> => {
+    runtime.userIO.log(`Copying ${sourcePath} to ${stagingDir}`)
+    return runtime.fileSystem.copyDirectoryRecursive(sourcePath, stagingDir)
+  }
+
+  return deleteInstalledPackage(runtime, stagingDir)
+    .andThen(() => runtime.fileSystem.mkdir(stagingDir))
+    .andThen(linked ? copyAndLink : copy)
+    .andThen(cacheBustStaged)
+    .andThen(() => runtime.fileSystem.writeFile(path.join(stagingDir, ".elm-sideload"), ""))
+    .map(() => staged)
+    .mapErr((cause): CommandError => ({ type: "packageCopyFailed", cause }))
+}
+
+// Backs up the official package, moves whatever is in the target directory to the rollback directory, and moves the
+// staged package in. If the last move fails, the previous package is moved back before the error is returned
+function swapStagedPackage(runtime: Runtime, staged: StagedPackage): ResultAsync<SwappedPackage, CommandError> {
+  const { stagingDir, targetDir, backupDir, rollbackDir } = staged
+
+  const moveAside = (hadPrevious: boolean): ResultAsync<void, CommandError> =>
+    !hadPrevious
+      ? okAsync(undefined)
+      : runtime.fileSystem
+          .deleteDir(rollbackDir)
+          .andThen(() => runtime.fileSystem.mkdir(path.dirname(rollbackDir)))
+          .andThen(() => runtime.fileSystem.rename(targetDir, rollbackDir))
+
+  const moveIn = (hadPrevious: boolean): ResultAsync<void, CommandError> =>
+    runtime.fileSystem
+      .mkdir(path.dirname(targetDir))
+      .andThen(() => runtime.fileSystem.rename(stagingDir, targetDir))
+      .orElse((error) =>
+        (hadPrevious ? runtime.fileSystem.rename(rollbackDir, targetDir) : okAsync(undefined)).andThen(() =>
+          errAsync(error)
+        )
+      )
+
+  return backupOfficialPackage(runtime, targetDir, backupDir)
+    .andThen(() => runtime.fileSystem.exists(targetDir))
+    .andThen((hadPrevious) => {
+      runtime.userIO.log(`Moving ${stagingDir} to ${targetDir}`)
+      return moveAside(hadPrevious)
+        .andThen(() => moveIn(hadPrevious))
+        .map(() => ({ ...staged, hadPrevious }))
+    })
+    .mapErr((cause): CommandError => ({ type: "packageCopyFailed", cause }))
+}
+
+// Undoes swaps newest first, removing each sideload and moving back whatever was there before. A package that can't
+// be restored is reported, and left in the rollback directory, while the rest are still rolled back
+function rollBackSwaps(
+  runtime: Runtime,
+  swapped: SwappedPackage[]
+): ResultAsync<InstallRolledBackError["rolledBack"], never> {
+  return [...swapped].reverse().reduce<ResultAsync<InstallRolledBackError["rolledBack"], never>>(
+    (acc, { packageName, version, targetDir, rollbackDir, hadPrevious }) =>
+      acc.andThen((rolledBack) => {
+        runtime.userIO.log(`Rolling back ${packageName} ${version} at ${targetDir}`)
+        return deleteInstalledPackage(runtime, targetDir)
+          .andThen(() => (hadPrevious ? runtime.fileSystem.rename(rollbackDir, targetDir) : okAsync(undefined)))
+          .map(() => [...rolledBack, { packageName, version }])
+          .orElse(() => {
+            runtime.userIO.log(
+              `Could not roll back ${packageName} ${version}; what it replaced is still in ${rollbackDir}`
+            )
+            return okAsync(rolledBack)
+          })
+      }),
+    okAsync([])
+  )
+}
+
+/**
+ * Swaps every staged package into ELM_HOME, then runs `finish`. If a swap or `finish` fails, the packages swapped in
+ * so far are rolled back before the error is returned, so that ELM_HOME either holds all of the sideloads or none of
+ * them.
+ */
+function commitStagedPackages(
+  runtime: Runtime,
+  elmHomePackagesPath: string,
+  staged: StagedPackage[],
+  finish: () => ResultAsync<void, CommandError>
+): ResultAsync<void, CommandError> {
+  type PartialCommit = { error: CommandError; swapped: SwappedPackage[] }
+
+  const swapAll = staged.reduce<ResultAsync<SwappedPackage[], PartialCommit>>(
+    (acc, pkg) =>
+      acc.andThen((swapped) =>
+        swapStagedPackage(runtime, pkg)
+          .map((done) => [...swapped, done])
+          .mapErr(
+            (error): PartialCommit => ({
+              error: { type: "sideloadFailed", packageName: pkg.packageName, version: pkg.version, error },
+              swapped,
+            })
+          )
+      ),
+    okAsync([])
   )
+
+  return swapAll
+    .andThen((swapped) =>
+      finish()
+        .map(() => swapped)
+        .mapErr((error): PartialCommit => ({ error, swapped }))
+    )
+    .andThen(() => runtime.fileSystem.deleteDir(toRollbackRoot(elmHomePackagesPath)).orElse(() => okAsync(undefined)))
+    .orElse(({ error, swapped }) =>
+      swapped.length === 0
+        ? errAsync(error)
+        : rollBackSwaps(runtime, swapped).andThen((rolledBack) =>
+            errAsync<void, CommandError>({ type: "installRolledBack", rolledBack, error })
+          )
+    )
 }
 
 // =============================================================================
 // Utility Functions
 // =============================================================================
 
-function loadElmJson(runtime: Runtime): ResultAsync<ElmJson, CommandError> {
-  const elmJsonPath = path.join(runtime.environment.cwd, "elm.json")
+function loadElmJson(runtime: Runtime, relativePath: string): ResultAsync<ElmJson, CommandError> {
+  const elmJsonPath = path.resolve(runtime.environment.cwd, relativePath)
 
   const parseElmJson = (content: string): Result<ElmJson, CommandError> => {
     try {
@@ -577,12 +2755,229 @@ function loadElmJson(runtime: Runtime): ResultAsync<ElmJson, CommandError> {
   return runtime.fileSystem.readFile(elmJsonPath).andThen(parseElmJson)
 }
 
+function loadElmJsons(runtime: Runtime, config: SideloadConfig): ResultAsync<ElmJson[], CommandError> {
+  return ResultAsync.combine(config.elmJsonPaths.map((elmJsonPath) => loadElmJson(runtime, elmJsonPath)))
+}
+
+function loadPackageElmJson(runtime: Runtime, packageDir: string): ResultAsync<PackageElmJson, CommandError> {
+  const elmJsonPath = path.join(packageDir, "elm.json")
+
+  const parsePackageElmJson = (content: string): Result<PackageElmJson, CommandError> => {
+    try {
+      const parsed = JSON.parse(content)
+      return parsed.type === "package" &&
+        typeof parsed.name === "string" &&
+        typeof parsed.version === "string" &&
+        typeof parsed["elm-version"] === "string" &&
+        typeof parsed["exposed-modules"] === "object" &&
+        parsed["exposed-modules"] !== null
+        ? ok(parsed as PackageElmJson)
+        : err("notAnElmPackage")
+    } catch (error) {
+      return err("notAnElmPackage")
+    }
+  }
+
+  return runtime.fileSystem
+    .readFile(elmJsonPath)
+    .mapErr(() => "notAnElmPackage" as const)
+    .andThen(parsePackageElmJson)
+}
+
+// The compiler trusts whatever elm.json it finds in ELM_HOME, so a sideload that calls itself something else only
+// fails later, confusingly, at build time; `allowMismatch` turns name, version, and elm-version mismatches into warnings
+function checkSourcePackage(
+  runtime: Runtime,
+  sideload: SideloadRegistration,
+  sourcePath: string
+): ResultAsync<void, CommandError> {
+  const { originalPackageName, originalPackageVersion } = sideload
+
+  const reportNotAPackage = (error: CommandError): CommandError => {
+    runtime.userIO.log(`${path.join(sourcePath, "elm.json")} is missing or does not describe an Elm package`)
+    return error
+  }
+
+  return loadPackageElmJson(runtime, sourcePath)
+    .mapErr(reportNotAPackage)
+    .andThen((packageElmJson) => {
+      const mismatches = [
+        packageElmJson.name !== originalPackageName
+          ? `its name is ${packageElmJson.name}, but it replaces ${originalPackageName}`
+          : null,
+        packageElmJson.version !== originalPackageVersion
+          ? `its version is ${packageElmJson.version}, but it replaces ${originalPackageVersion}`
+          : null,
+        !elmVersionAdmits(packageElmJson["elm-version"], "0.19.1")
+          ? `its elm-version "${packageElmJson["elm-version"]}" does not include 0.19.1`
+          : null,
+      ].filter((mismatch): mismatch is string => mismatch !== null)
+
+      if (mismatches.length === 0) {
+        return okAsync(undefined)
+      }
+
+      const report = [
+        `The sideload for ${originalPackageName} ${originalPackageVersion} does not match the package it replaces:`,
+        ...mismatches.map((mismatch) => `  ${mismatch}`),
+      ].join("\n")
+
+      if (sideload.allowMismatch) {
+        runtime.userIO.log(`${report}\nContinuing anyway, because this sideload was configured with --allow-mismatch`)
+        return okAsync(undefined)
+      }
+
+      runtime.userIO.log(`${report}\nRe-run 'elm-sideload configure' with --allow-mismatch if this is intentional`)
+      return errAsync("sideloadPackageMismatch" as const)
+    })
+}
+
+// The untouched official package: its backup once a sideload has replaced it, otherwise the package itself; null if
+// the compiler hasn't downloaded it yet, or a sideload replaced it before backups existed
+function findOfficialPackageDir(
+  runtime: Runtime,
+  sideload: SideloadRegistration,
+  elmHomePackagesPath: string
+): ResultAsync<string | null, CommandError> {
+  const { originalPackageName, originalPackageVersion } = sideload
+
+  return toPackageDir(elmHomePackagesPath, originalPackageName, originalPackageVersion).asyncAndThen((packageDir) => {
+    const [author, name] = originalPackageName.split("/")
+    const backupDir = toBackupDir(elmHomePackagesPath, author, name, originalPackageVersion)
+
+    return runtime.fileSystem
+      .exists(backupDir)
+      .andThen((hasBackup) =>
+        hasBackup
+          ? okAsync(backupDir)
+          : getInstalledState(runtime, packageDir).map((state) => (state === "official" ? packageDir : null))
+      )
+  })
+}
+
+// Compares exposed modules, and the exposed declarations of every module that both sides expose; a module whose source
+// can't be read or understood on either side is only compared by name
+function compareApis(
+  runtime: Runtime,
+  sideload: SideloadRegistration,
+  officialDir: string,
+  sideloadDir: string
+): ResultAsync<ApiCompatibility, CommandError> {
+  const readModuleApi = (packageDir: string, moduleName: string): ResultAsync<ModuleApi | null, CommandError> =>
+    runtime.fileSystem
+      .readFile(path.join(packageDir, "src", ...moduleName.split(".")) + ".elm")
+      .map(parseModuleApi)
+      .orElse(() => okAsync(null))
+
+  const compareModule = (moduleName: string): ResultAsync<ModuleApiChanges | null, CommandError> =>
+    ResultAsync.combine([readModuleApi(officialDir, moduleName), readModuleApi(sideloadDir, moduleName)]).map(
+      ([before, after]) => (before && after ? { moduleName, ...diffModuleApis(before, after) } : null)
+    )
+
+  const hasChanges = (changes: ModuleApiChanges | null): changes is ModuleApiChanges =>
+    changes !== null && (changes.removed.length > 0 || changes.added.length > 0 || changes.changed.length > 0)
+
+  return ResultAsync.combine([
+    loadPackageElmJson(runtime, officialDir),
+    loadPackageElmJson(runtime, sideloadDir),
+  ]).andThen(([official, sideloaded]) => {
+    const before = flattenExposedModules(official["exposed-modules"])
+    const after = flattenExposedModules(sideloaded["exposed-modules"])
+    const { removed, added } = diffNames(before, after)
+
+    return ResultAsync.combine(before.filter((moduleName) => after.includes(moduleName)).map(compareModule)).map(
+      (modules) => ({
+        packageName: sideload.originalPackageName,
+        version: sideload.originalPackageVersion,
+        removedModules: removed,
+        addedModules: added,
+        changedModules: modules.filter(hasChanges),
+      })
+    )
+  })
+}
+
+// Additions can't break code written against the official API; removals and changes can
+function isBreakingApiChange(compatibility: ApiCompatibility): boolean {
+  return (
+    compatibility.removedModules.length > 0 ||
+    compatibility.changedModules.some((changes) => changes.removed.length > 0 || changes.changed.length > 0)
+  )
+}
+
+function formatApiCompatibility(compatibility: ApiCompatibility): string[] {
+  const { packageName, version, removedModules, addedModules, changedModules } = compatibility
+  const unchanged = removedModules.length === 0 && addedModules.length === 0 && changedModules.length === 0
+
+  return [
+    `  ${packageName} ${version}: ${isBreakingApiChange(compatibility) ? "breaking API changes" : unchanged ? "same API" : "API additions only"}`,
+    ...removedModules.map((moduleName) => `      removed module: ${moduleName}`),
+    ...addedModules.map((moduleName) => `      added module:   ${moduleName}`),
+    ...changedModules.reduce<string[]>(
+      (acc, changes) => [
+        ...acc,
+        ...changes.removed.map((name) => `      removed: ${changes.moduleName}.${name}`),
+        ...changes.added.map((name) => `      added:   ${changes.moduleName}.${name}`),
+        ...changes.changed.map((name) => `      changed: ${changes.moduleName}.${name}`),
+      ],
+      []
+    ),
+  ]
+}
+
+// Changing the package is the point of a sideload, so this only warns, and quietly skips packages it can't compare; but
+// packages built against the official API may stop compiling, which is easier to trace back to the sideload now
+function warnAboutApiChanges(
+  runtime: Runtime,
+  sideload: SideloadRegistration,
+  sourcePath: string,
+  elmHomePackagesPath: string
+): ResultAsync<void, CommandError> {
+  return findOfficialPackageDir(runtime, sideload, elmHomePackagesPath)
+    .andThen((officialDir) =>
+      officialDir === null
+        ? okAsync(undefined)
+        : compareApis(runtime, sideload, officialDir, sourcePath).map((compatibility) => {
+            if (isBreakingApiChange(compatibility)) {
+              runtime.userIO.log(
+                [
+                  "Warning: this sideload removes or changes API that the official package exposes:",
+                  ...formatApiCompatibility(compatibility),
+                ].join("\n")
+              )
+            }
+          })
+    )
+    .orElse(() => okAsync(undefined))
+}
+
+// Packages declare ranges like "0.19.0 <= v < 0.20.0"; applications declare an exact version
+function elmVersionAdmits(constraint: string, version: string): boolean {
+  const range = constraint.trim().match(/^(\d+\.\d+\.\d+)\s*(<=?)\s*v\s*(<=?)\s*(\d+\.\d+\.\d+)$/)
+  if (!range) {
+    return constraint.trim() === version
+  }
+
+  const [, lower, lowerOp, upperOp, upper] = range
+  const aboveLower = lowerOp === "<=" ? compareVersions(lower, version) <= 0 : compareVersions(lower, version) < 0
+  const belowUpper = upperOp === "<=" ? compareVersions(version, upper) <= 0 : compareVersions(version, upper) < 0
+  return aboveLower && belowUpper
+}
+
+// A missing part counts as zero, so "2.5" and "2.5.0" are the same version
+function compareVersions(a: string, b: string): number {
+  const [left, right] = [a, b].map((version) => version.split(".").map(Number))
+  const length = Math.max(left.length, right.length)
+  const difference = Array.from({ length }, (_, i) => (left[i] ?? 0) - (right[i] ?? 0)).find((d) => d !== 0)
+  return difference ?? 0
+}
+
 function loadSideloadConfig(runtime: Runtime): ResultAsync<SideloadConfig, CommandError> {
   const configPath = path.join(runtime.environment.cwd, "elm.sideload.json")
 
-  const parseConfig = (content: string): Result<SideloadConfig, CommandError> => {
+  const parseJson = (content: string): Result<unknown, CommandError> => {
     try {
-      return ok(JSON.parse(content) as SideloadConfig)
+      return ok(JSON.parse(content))
     } catch (error) {
       return err("invalidSideloadConfig")
     }
@@ -591,20 +2986,75 @@ function loadSideloadConfig(runtime: Runtime): ResultAsync<SideloadConfig, Comma
   return runtime.fileSystem
     .readFile(configPath)
     .mapErr(() => "sideloadConfigNotFound" as const)
-    .andThen(parseConfig)
+    .andThen(parseJson)
+    .andThen(parseSideloadConfig)
 }
 
-function checkPackageInElmJson(elmJson: ElmJson, packageName: string): boolean {
-  const { dependencies } = elmJson
+function loadLockfile(runtime: Runtime): ResultAsync<SideloadLock, CommandError> {
+  const lockfilePath = path.join(runtime.environment.cwd, "elm.sideload.lock.json")
+
+  const parseLockfile = (content: string): Result<unknown, CommandError> => {
+    try {
+      return ok(JSON.parse(content))
+    } catch (error) {
+      return err("invalidLockfile")
+    }
+  }
+
+  return runtime.fileSystem
+    .readFile(lockfilePath)
+    .mapErr(() => "lockfileNotFound" as const)
+    .andThen(parseLockfile)
+    .andThen(parseSideloadLock)
+}
 
+function saveLockfile(runtime: Runtime, lock: SideloadLock): ResultAsync<void, CommandError> {
+  const lockfilePath = path.join(runtime.environment.cwd, "elm.sideload.lock.json")
+  return runtime.fileSystem.writeFile(lockfilePath, JSON.stringify(lock, null, 2) + "\n")
+}
+
+function isLockFor(locked: LockedSideload, sideload: SideloadRegistration): boolean {
   return (
-    packageName in dependencies.direct ||
-    packageName in dependencies.indirect ||
-    packageName in dependencies["test-dependencies"].direct ||
-    packageName in dependencies["test-dependencies"].indirect
+    locked.originalPackageName === sideload.originalPackageName &&
+    locked.originalPackageVersion === sideload.originalPackageVersion &&
+    locked.source === describeSource(sideload.sideloadedPackage)
   )
 }
 
+function findLockedSideload(lock: SideloadLock, sideload: SideloadRegistration): LockedSideload | undefined {
+  return lock.sideloads.find((locked) => isLockFor(locked, sideload))
+}
+
+// Hashes every file that `copyDirectoryRecursive` would copy, keyed by its path relative to `dir`
+function hashFiles(runtime: Runtime, dir: string): ResultAsync<Map<string, string>, CommandError> {
+  return runtime.fileSystem
+    .listFilesRecursive(dir)
+    .andThen((files) =>
+      ResultAsync.combine(
+        files.map((file) =>
+          runtime.fileSystem.hashFile(path.join(dir, file)).map((hash): [string, string] => [file, hash])
+        )
+      )
+    )
+    .map((entries) => new Map(entries))
+}
+
+// A single hash identifying the exact file tree a sideload puts into ELM_HOME
+function hashDirectory(runtime: Runtime, dir: string): ResultAsync<string, CommandError> {
+  return hashFiles(runtime, dir).map((hashes) => {
+    const manifest = [...hashes.keys()]
+      .sort()
+      .map((file) => `${file}\0${hashes.get(file)}\n`)
+      .join("")
+    return "sha256-" + createHash("sha256").update(manifest).digest("hex")
+  })
+}
+
+function saveSideloadConfig(runtime: Runtime, config: SideloadConfig): ResultAsync<void, CommandError> {
+  const configPath = path.join(runtime.environment.cwd, "elm.sideload.json")
+  return runtime.fileSystem.writeFile(configPath, JSON.stringify(config, null, 2))
+}
+
 function getPackageVersion(elmJson: ElmJson, packageName: string): string | null {
   const { dependencies } = elmJson
 
@@ -1,31 +1,59 @@
 #!/usr/bin/env node
 
-import { createRuntime } from "./cli"
+import { createRuntime, parseOutputFormat } from "./cli"
 import { executeCommand } from "./impl"
+import { diagnose, formatDiagnostic } from "./diagnostics"
+import { Runtime, CommandError, ExecutionResult } from "./types"
+
+// Errors keep the runtime they happened in, if it was created, so that the diagnostic can look at the project
+type Failure = { runtime: Runtime | null; error: CommandError }
+
+function printText(executionResult: ExecutionResult): void {
+  console.log(executionResult.message)
+
+  if (executionResult.changes && executionResult.changes.length > 0) {
+    console.log("\nChanges:")
+    executionResult.changes.forEach((change) => {
+      console.log(`  ${change.packageName}: ${change.action} from ${change.source}`)
+    })
+  }
+}
+
+// The whole document is written at once, so consumers can parse stdout without looking for where it starts
+function printJson(document: object): void {
+  process.stdout.write(`${JSON.stringify(document, null, 2)}\n`)
+}
 
 async function main(): Promise<void> {
   const argv = process.argv.slice(2)
+  const outputFormat = parseOutputFormat(argv)
 
-  await createRuntime(argv)
-    .andThen((runtime) => executeCommand(runtime))
-    .match(
-      (executionResult) => {
-        console.log(executionResult.message)
-
-        if (executionResult.changes && executionResult.changes.length > 0) {
-          console.log("\nChanges:")
-          executionResult.changes.forEach((change) => {
-            console.log(`  ${change.packageName}: ${change.action} from ${change.source}`)
-          })
-        }
-
-        process.exit(0)
-      },
-      (error) => {
-        console.error(`Error: ${error}`)
-        process.exit(1)
-      }
+  const result = await createRuntime(argv)
+    .mapErr((error): Failure => ({ runtime: null, error }))
+    .andThen((runtime) =>
+      executeCommand(runtime)
+        .map((executionResult) => ({ runtime, executionResult }))
+        .mapErr((error): Failure => ({ runtime, error }))
     )
+
+  if (result.isErr()) {
+    const { runtime, error } = result.error
+    await diagnose(runtime, error).map((diagnostic) =>
+      outputFormat === "json"
+        ? printJson({ ok: false, command: runtime?.command.type ?? null, error, diagnostic })
+        : console.error(formatDiagnostic(diagnostic))
+    )
+    process.exit(1)
+  }
+
+  const { runtime, executionResult } = result.value
+  if (outputFormat === "json") {
+    printJson({ ok: true, command: runtime.command.type, result: executionResult })
+  } else {
+    printText(executionResult)
+  }
+
+  process.exit(0)
 }
 
 // Only run main if this file is executed directly
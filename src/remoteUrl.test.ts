@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest"
+import { parseRemoteUrl, toCacheKey } from "./remoteUrl"
+
+describe("parseRemoteUrl", () => {
+  it("should parse https URLs, ignoring a trailing slash and .git suffix", () => {
+    expect(parseRemoteUrl("https://github.com/lydell/virtual-dom.git/")._unsafeUnwrap()).toEqual({
+      type: "hosted",
+      protocol: "https",
+      host: "github.com",
+      port: null,
+      repoPath: ["lydell", "virtual-dom"],
+    })
+  })
+
+  it("should parse scp-style ssh remotes", () => {
+    expect(parseRemoteUrl("git@github.com:lydell/html.git")._unsafeUnwrap()).toEqual({
+      type: "hosted",
+      protocol: "ssh",
+      host: "github.com",
+      port: null,
+      repoPath: ["lydell", "html"],
+    })
+  })
+
+  it("should parse ssh:// URLs with a port", () => {
+    expect(parseRemoteUrl("ssh://git@gitea.example.com:2222/forks/html.git")._unsafeUnwrap()).toEqual({
+      type: "hosted",
+      protocol: "ssh",
+      host: "gitea.example.com",
+      port: "2222",
+      repoPath: ["forks", "html"],
+    })
+  })
+
+  it("should keep every segment of GitLab subgroup paths", () => {
+    const remote = parseRemoteUrl("https://gitlab.com/group/subgroup/html")._unsafeUnwrap()
+    expect(remote.type === "hosted" && remote.repoPath).toEqual(["group", "subgroup", "html"])
+  })
+
+  it("should parse file:// URLs and local paths as local repositories", () => {
+    expect(parseRemoteUrl("file:///srv/mirrors/html.git")._unsafeUnwrap()).toEqual({
+      type: "local",
+      protocol: "file",
+      path: "/srv/mirrors/html.git",
+    })
+    expect(parseRemoteUrl("../mirrors/html.git")._unsafeUnwrap()).toEqual({
+      type: "local",
+      protocol: "path",
+      path: "../mirrors/html.git",
+    })
+    expect(parseRemoteUrl("/srv/my mirrors/$(html);.git")._unsafeUnwrap()).toEqual({
+      type: "local",
+      protocol: "path",
+      path: "/srv/my mirrors/$(html);.git",
+    })
+  })
+
+  it("should reject what git would take as an option, and control characters", () => {
+    expect(parseRemoteUrl("--upload-pack=touch /tmp/pwned")._unsafeUnwrapErr().reason).toBe("must not start with '-'")
+    expect(parseRemoteUrl("../html\n.git")._unsafeUnwrapErr().type).toBe("invalidRemoteUrl")
+  })
+
+  it("should reject unsupported schemes and URLs without a repository path", () => {
+    expect(parseRemoteUrl("ftp://example.com/html")._unsafeUnwrapErr().type).toBe("invalidRemoteUrl")
+    expect(parseRemoteUrl("https://example.com/")._unsafeUnwrapErr().type).toBe("invalidRemoteUrl")
+    expect(parseRemoteUrl("git@example.com:../html")._unsafeUnwrapErr().type).toBe("invalidRemoteUrl")
+  })
+
+  it("should reject percent-encoded slashes that would smuggle '..' into the path", () => {
+    expect(parseRemoteUrl("https://example.com/a%2F..%2F..%2F..%2F..%2Fevil")._unsafeUnwrapErr().type).toBe(
+      "invalidRemoteUrl"
+    )
+    expect(parseRemoteUrl("https://example.com/owner/%2E%2E")._unsafeUnwrapErr().type).toBe("invalidRemoteUrl")
+    expect(parseRemoteUrl("git@example.com:owner/a%5C..%5Cevil")._unsafeUnwrapErr().type).toBe("invalidRemoteUrl")
+  })
+})
+
+describe("toCacheKey", () => {
+  const keyFor = (url: string) => toCacheKey(parseRemoteUrl(url)._unsafeUnwrap())
+
+  it("should keep the owner/repo layout for GitHub, whatever the protocol", () => {
+    expect(keyFor("https://github.com/lydell/html")).toEqual(["lydell", "html"])
+    expect(keyFor("git@github.com:lydell/html.git")).toEqual(["lydell", "html"])
+  })
+
+  it("should namespace other hosts so they cannot collide with GitHub owners", () => {
+    expect(keyFor("https://gitea.example.com/lydell/html")).toEqual(["_hosts", "gitea.example.com", "lydell", "html"])
+    expect(keyFor("ssh://git@gitea.example.com:2222/lydell/html")).toEqual([
+      "_hosts",
+      "gitea.example.com_2222",
+      "lydell",
+      "html",
+    ])
+  })
+
+  it("should give different local repositories with the same name different keys", () => {
+    const first = keyFor("/srv/a/html.git")
+    const second = keyFor("/srv/b/html.git")
+
+    expect(first[0]).toBe("_local")
+    expect(first[1]).toMatch(/^html-[0-9a-f]{12}$/)
+    expect(first).not.toEqual(second)
+  })
+})
@@ -0,0 +1,152 @@
+import { Result, ok, err } from "neverthrow"
+import { createHash } from "crypto"
+import * as path from "path"
+
+// =============================================================================
+// Remote URL Types
+// =============================================================================
+
+export type RemoteUrl =
+  | {
+      type: "hosted"
+      protocol: "https" | "http" | "ssh" | "git"
+      host: string
+      port: string | null
+      repoPath: string[]
+    }
+  | { type: "local"; protocol: "file" | "path"; path: string }
+
+export type Error = { type: "invalidRemoteUrl"; url: string; reason: string }
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+const invalid = (url: string, reason: string): Result<never, Error> => err({ type: "invalidRemoteUrl", url, reason })
+
+// Splits the path part of a hosted URL into its segments, dropping trailing slashes and the `.git` suffix
+const toRepoPath = (url: string, rawPath: string): Result<string[], Error> => {
+  let segments: string[]
+  try {
+    segments = rawPath
+      .split("/")
+      .filter((segment) => segment !== "")
+      .map((segment) => decodeURIComponent(segment))
+  } catch (_) {
+    return invalid(url, "malformed percent-encoding in path")
+  }
+
+  if (segments.length === 0) {
+    return invalid(url, "no repository path")
+  }
+  // Decoding can turn `%2F` into a separator, so segments are checked after it, or `..` could be smuggled in
+  if (segments.some((segment) => segment === "" || segment === "." || segment === ".." || /[\\/]/.test(segment))) {
+    return invalid(url, "repository path must not contain '.', '..', empty segments or encoded slashes")
+  }
+
+  const last = segments[segments.length - 1].replace(/\.git$/, "")
+  return last === "" ? invalid(url, "no repository name") : ok([...segments.slice(0, -1), last])
+}
+
+const schemeProtocols: Record<string, "https" | "http" | "ssh" | "git"> = {
+  https: "https",
+  http: "http",
+  ssh: "ssh",
+  "git+ssh": "ssh",
+  "ssh+git": "ssh",
+  git: "git",
+}
+
+/**
+ * Understands https/http, `ssh://`, scp-style `user@host:path`, `git://`, `file://`, and plain local paths
+ * (e.g. a bare repository that CI has mirrored to disk).
+ */
+export function parseRemoteUrl(url: string): Result<RemoteUrl, Error> {
+  const trimmed = url.trim()
+  if (trimmed === "") {
+    return invalid(url, "empty URL")
+  }
+  // git would take a leading '-' as one of its own options, and no URL or path needs control characters
+  if (trimmed.startsWith("-")) {
+    return invalid(url, "must not start with '-'")
+  }
+  if (/[\u0000-\u001f\u007f]/.test(trimmed)) {
+    return invalid(url, "must not contain control characters such as newlines")
+  }
+
+  const fileMatch = trimmed.match(/^file:\/\/(?:localhost)?(\/.*)$/i)
+  if (fileMatch) {
+    return ok({ type: "local", protocol: "file", path: decodeURIComponent(fileMatch[1]) })
+  }
+
+  const schemeMatch = trimmed.match(/^([a-z][a-z0-9+.-]*):\/\//i)
+  if (schemeMatch) {
+    const protocol = schemeProtocols[schemeMatch[1].toLowerCase()]
+    if (!protocol) {
+      return invalid(url, `unsupported scheme '${schemeMatch[1]}'`)
+    }
+
+    let parsed: URL
+    try {
+      parsed = new URL(trimmed)
+    } catch (_) {
+      return invalid(url, "malformed URL")
+    }
+    if (parsed.hostname === "") {
+      return invalid(url, "no host")
+    }
+
+    return toRepoPath(url, parsed.pathname).map((repoPath) => ({
+      type: "hosted" as const,
+      protocol,
+      host: parsed.hostname.toLowerCase(),
+      port: parsed.port === "" ? null : parsed.port,
+      repoPath,
+    }))
+  }
+
+  // scp-style `git@host:owner/repo.git`; a Windows drive letter (`C:\...`, `C:/...`) is a local path, not a host
+  const scpMatch = trimmed.match(/^(?:[^@/\\]+@)?([^:/\\]+):(.+)$/)
+  if (scpMatch && !/^[a-z]:[\\/]/i.test(trimmed)) {
+    return toRepoPath(url, scpMatch[2]).map((repoPath) => ({
+      type: "hosted" as const,
+      protocol: "ssh" as const,
+      host: scpMatch[1].toLowerCase(),
+      port: null,
+      repoPath,
+    }))
+  }
+
+  return ok({ type: "local", protocol: "path", path: trimmed })
+}
+
+export function isGithubRemote(remote: RemoteUrl): boolean {
+  return remote.type === "hosted" && remote.host === "github.com"
+}
+
+// =============================================================================
+// Cache Keys
+// =============================================================================
+
+/**
+ * Path segments, relative to the sideload cache directory, where a remote's clone lives.
+ *
+ * GitHub `owner/repo` remotes keep the `owner/repo` layout that earlier versions used, so existing caches stay valid.
+ * Everything else lives under a directory that starts with `_`, which no GitHub owner name can, so keys never collide:
+ * other hosts under `_hosts/<host>[_<port>]/<path>`, and local repositories under `_local/<name>-<hash of path>`.
+ */
+export function toCacheKey(remote: RemoteUrl): string[] {
+  switch (remote.type) {
+    case "hosted":
+      if (remote.host === "github.com" && remote.repoPath.length === 2) {
+        return remote.repoPath
+      }
+      return ["_hosts", remote.port ? `${remote.host}_${remote.port}` : remote.host, ...remote.repoPath]
+
+    case "local":
+      const normalized = path.normalize(remote.path).replace(/[\\/]+$/, "")
+      const name = path.basename(normalized).replace(/\.git$/, "") || "repo"
+      const digest = createHash("sha256").update(normalized).digest("hex").slice(0, 12)
+      return ["_local", `${name}-${digest}`]
+  }
+}
@@ -1,11 +1,25 @@
 import { Result, ResultAsync } from "neverthrow"
 import { type GitIO, type Error as GitIOError } from "./gitIO"
+import { type Error as RemoteUrlError } from "./remoteUrl"
+import { type Error as ConfigSchemaError } from "./configSchema"
 
 // =============================================================================
 // CLI Command Types
 // =============================================================================
 
-export type Command = HelpCommand | InitCommand | ConfigureCommand | InstallCommand | UnloadCommand
+export type Command =
+  | HelpCommand
+  | InitCommand
+  | ConfigureCommand
+  | UpdateCommand
+  | InstallCommand
+  | UnloadCommand
+  | RemoveCommand
+  | StatusCommand
+  | VerifyCommand
+  | CompatCommand
+  | ExportCommand
+  | DoctorCommand
 
 export type HelpCommand = {
   type: "help"
@@ -19,26 +33,76 @@ export type ConfigureCommand = {
   type: "configure"
   packageName: string // e.g. "elm/html"
   source: ConfigureInput
+  allowMismatch: boolean // record the sideload even if its elm.json names a different package, version, or compiler
+  link: boolean // install a relative source by symlinking its src folder instead of copying it
 }
 
 // CLI input types (before resolution)
-export type ConfigureInput =
-  | { type: "github"; url: string; pinTo: { branch: string } }
-  | { type: "github"; url: string; pinTo: { sha: string } }
+// "github" sources must point at github.com; "git" sources can be any remote that git can clone
+// `subdir` is the package's folder within the repository, for packages that live in a monorepo
+export type BaseConfigureInput =
+  | { type: "github" | "git"; url: string; pinTo: { branch: string }; subdir?: string }
+  | { type: "github" | "git"; url: string; pinTo: { sha: string }; subdir?: string }
   | { type: "relative"; path: string }
+  | { type: "archive"; path: string }
 
-// Internal storage types (after resolution - SHA only)
-export type ConfigureSource =
-  | { type: "github"; url: string; pinTo: { sha: string } }
-  | { type: "relative"; path: string }
+// `patches` are relative paths to .patch/.diff files, applied in order on top of `base`
+export type ConfigureInput =
+  | BaseConfigureInput
+  | { type: "patches"; base: { type: "official" } | BaseConfigureInput; patches: string[] }
+
+// Internal storage types (after resolution - always a SHA, plus the branch it was resolved from, if any;
+// archives record the checksum they were configured with)
+export type ConfigureSource = SideloadSource
+
+export type UpdateCommand = {
+  type: "update"
+  packageName: string | null // null means every sideload that tracks a branch
+}
 
 export type InstallCommand = {
   type: "install"
   mode: "interactive" | "always" | "dry-run"
+  frozen: boolean
+  watch: boolean
+  link: boolean // link every relative source, not just the ones configured with --link
+  packages: string[] // package names or globs like "elm/*"; empty means every sideload
 }
 
 export type UnloadCommand = {
   type: "unload"
+  packages: string[] // package names or globs like "elm/*"; empty means every sideload
+}
+
+export type RemoveCommand = {
+  type: "remove"
+  packageName: string
+  prune: boolean // also delete the cached clone, unless another sideload still uses it
+}
+
+export type StatusCommand = {
+  type: "status"
+}
+
+export type VerifyCommand = {
+  type: "verify"
+}
+
+export type CompatCommand = {
+  type: "compat"
+  packageName: string
+}
+
+export type ExportCommand = {
+  type: "export"
+  format: ExportFormat
+}
+
+// The tools that elm.sideload.json can be translated for
+export type ExportFormat = "zokka"
+
+export type DoctorCommand = {
+  type: "doctor"
 }
 
 // =============================================================================
@@ -53,9 +117,8 @@ export interface Runtime {
   userIO: UserIOAdapter
 }
 
-export type ElmHome =
-  | { type: "fromShellEnv"; elmHome: string; packagesPath: string }
-  | { type: "fromOsDefault"; elmHome: string; packagesPath: string }
+// Where each compiler keeps its packages within ELM_HOME is up to its profile, in compilers.ts
+export type ElmHome = { type: "fromShellEnv"; elmHome: string } | { type: "fromOsDefault"; elmHome: string }
 
 export interface Environment {
   elmHome: ElmHome
@@ -68,21 +131,50 @@ export interface Environment {
 // Configuration Types
 // =============================================================================
 
+// `version` is bumped whenever the format changes; older configs are migrated when they are loaded.
+// `elmJsonPaths` are relative to the directory that holds elm.sideload.json, one per Elm project that uses the sideloads
 export type SideloadConfig = {
-  elmJsonPath: string
+  version: 3
+  elmJsonPaths: string[]
+  compiler: Compiler
   requireElmHome: boolean
   sideloads: SideloadRegistration[]
 }
 
+// Decides where packages live in ELM_HOME, and which compiled artifacts and caches a sideload makes stale
+export type Compiler = "elm" | "lamdera" | "zokka"
+
 export type SideloadRegistration = {
   originalPackageName: string
   originalPackageVersion: string
   sideloadedPackage: SideloadSource
+  allowMismatch?: boolean // only written when true
+  link?: boolean // only written when true, and only for relative sources
 }
 
-export type SideloadSource =
-  | { type: "github"; url: string; pinTo: { sha: string } }
+export type BaseSideloadSource =
+  | { type: "github" | "git"; url: string; pinTo: { sha: string; branch?: string }; subdir?: string }
   | { type: "relative"; path: string }
+  | { type: "archive"; path: string; sha256: string }
+
+// A "patches" sideload applies .patch/.diff files on top of either the official package or another source
+export type SideloadSource =
+  | BaseSideloadSource
+  | { type: "patches"; base: { type: "official" } | BaseSideloadSource; patches: string[] }
+
+// Written by `install` to 'elm.sideload.lock.json'
+export type SideloadLock = {
+  lockfileVersion: 1
+  sideloads: LockedSideload[]
+}
+
+export type LockedSideload = {
+  originalPackageName: string
+  originalPackageVersion: string
+  source: string
+  resolvedCommit: string | null
+  contentHash: string
+}
 
 export type ElmJson = {
   type: string
@@ -98,6 +190,15 @@ export type ElmJson = {
   }
 }
 
+// The fields of a sideload's own elm.json that have to line up with the package it replaces
+export type PackageElmJson = {
+  type: "package"
+  name: string
+  version: string
+  "elm-version": string
+  "exposed-modules": string[] | Record<string, string[]>
+}
+
 // =============================================================================
 // File System Adapter (for testing)
 // =============================================================================
@@ -108,8 +209,26 @@ export type FileSystemAdapter = {
   exists: (path: string) => ResultAsync<boolean, FileError>
   mkdir: (path: string) => ResultAsync<void, FileError>
   deleteFile: (path: string) => ResultAsync<void, FileError>
+  // Symlinks inside the directory are removed themselves; what they point at is never touched
   deleteDir: (path: string) => ResultAsync<void, FileError>
   copyDirectoryRecursive: (source: string, target: string) => ResultAsync<void, FileError>
+  rename: (source: string, target: string) => ResultAsync<void, FileError>
+  // Creates a symlink at `path` that points at the directory `target`
+  symlink: (target: string, path: string) => ResultAsync<void, FileError>
+  isSymlink: (path: string) => ResultAsync<boolean, FileError>
+  readDirectory: (path: string) => ResultAsync<string[], FileError>
+  listFilesRecursive: (path: string) => ResultAsync<string[], FileError>
+  hashFile: (path: string) => ResultAsync<string, FileError>
+  // Milliseconds since the epoch; for a symlink, the time of what it points at
+  modifiedTime: (path: string) => ResultAsync<number, FileError>
+  extractArchive: (archivePath: string, targetDir: string) => ResultAsync<void, FileError>
+  // Calls `onChanges` with the paths, relative to `path`, that changed in a burst of edits; the result stops watching.
+  // `onError` is called, at most once, if watching breaks down after it started
+  watchDirectory: (
+    path: string,
+    onChanges: (paths: string[]) => void,
+    onError: (error: FileError) => void
+  ) => ResultAsync<() => void, FileError>
 }
 
 // =============================================================================
@@ -118,8 +237,14 @@ export type FileSystemAdapter = {
 
 export type UserIOAdapter = {
   prompt: (message: string) => ResultAsync<string, UserIOError>
+  // Progress output. Goes to stderr with --json, so that stdout only carries the JSON document
+  log: (message: string) => void
+  // Resolves once the user presses Ctrl-C
+  untilInterrupted: () => ResultAsync<void, never>
 }
 
+export type OutputFormat = "text" | "json"
+
 // =============================================================================
 // Error Types
 // =============================================================================
@@ -133,6 +258,8 @@ export type FileError =
   | "permissionDenied"
   | "directoryNotFound"
   | "copyError"
+  | "extractError"
+  | "watchError"
 
 export type ValidationError =
   | "noElmJsonFound"
@@ -144,13 +271,106 @@ export type ValidationError =
   | "couldNotReadElmJson"
   | "gitCloneFailed"
   | "invalidPackageName"
-  | "packageCopyFailed"
   | "elmHomePathNotFound"
-  | "unloadFailed"
+  | "lockfileNotFound"
+  | "invalidLockfile"
+  | "sideloadNotConfigured"
+  | "noTrackedBranch"
+  | "invalidSubdir"
+  | "noElmJsonInSubdir"
+  | "archiveChecksumMismatch"
+  | "patchNotFound"
+  | "noPristineOfficialPackage"
+  | "notAnElmPackage"
+  | "sideloadPackageMismatch"
+  | "noRelativeSideloads"
+  | "invalidZokkaOverrides"
 
 export type RuntimeError = "noElmHome" | "couldNotCreateRuntime" | "invalidArguments" | "gitNotAvailable"
 
-export type CommandError = FileError | ValidationError | RuntimeError | GitIOError | UserIOError
+// Wraps an error from one of several sideloads that a command works through, so it can say which package it's about
+export type SideloadFailedError = {
+  type: "sideloadFailed"
+  packageName: string
+  version: string
+  error: CommandError
+}
+
+// Install swaps packages into ELM_HOME only once every sideload has been staged; when a later step fails, the packages
+// already swapped in are put back the way they were, and this names them
+export type InstallRolledBackError = {
+  type: "installRolledBack"
+  rolledBack: { packageName: string; version: string }[]
+  error: CommandError
+}
+
+// A package name or glob given to install or unload that none of the configured sideloads match
+export type UnknownPackagesError = {
+  type: "unknownPackages"
+  patterns: string[]
+  configured: string[]
+}
+
+// A sideload whose source no longer produces what elm.sideload.lock.json recorded; `locked` is null when the lockfile
+// has no entry for it
+export type LockMismatch = {
+  packageName: string
+  version: string
+  locked: { resolvedCommit: string | null; contentHash: string } | null
+  resolved: { resolvedCommit: string | null; contentHash: string }
+}
+
+// Install --frozen checks every selected sideload before staging any, and this names all of those that differ
+export type LockfileMismatchError = {
+  type: "lockfileMismatch"
+  mismatches: LockMismatch[]
+}
+
+// Carries every check that doctor ran, not just the failed ones, so that --json reports them all
+export type DoctorFoundProblemsError = {
+  type: "doctorFoundProblems"
+  checks: DoctorCheck[]
+}
+
+// Staging, swapping, or unloading a package takes several file operations; `cause` is the one that failed
+export type PackageCopyFailedError = {
+  type: "packageCopyFailed"
+  cause: CommandError
+}
+
+export type UnloadFailedError = {
+  type: "unloadFailed"
+  cause: CommandError
+}
+
+// Carries every sideload that verify compared, not just the drifted ones, so that --json reports them all
+export type SideloadDriftError = {
+  type: "sideloadDrift"
+  drifts: PackageDrift[]
+}
+
+export type ApiIncompatibleError = {
+  type: "apiIncompatible"
+  compatibility: ApiCompatibility
+}
+
+export type CommandError =
+  | SideloadFailedError
+  | InstallRolledBackError
+  | UnknownPackagesError
+  | LockfileMismatchError
+  | DoctorFoundProblemsError
+  | SideloadDriftError
+  | PackageCopyFailedError
+  | UnloadFailedError
+  | ApiIncompatibleError
+  | FileError
+  | ValidationError
+  | RuntimeError
+  | GitIOError
+  | RemoteUrlError
+  | ConfigSchemaError
+  | UserIOError
 
 // =============================================================================
 // Execution Results
@@ -159,10 +379,65 @@ export type CommandError = FileError | ValidationError | RuntimeError | GitIOErr
 export type ExecutionResult = {
   message: string
   changes?: AppliedChange[]
+  packages?: PackageStatus[]
+  compatibility?: ApiCompatibility
+  checks?: DoctorCheck[]
+}
+
+// One check of `doctor`: "warn" is for things that can cause confusing builds, "fail" for things that break elm-sideload
+export type DoctorCheck = {
+  name: string
+  status: "pass" | "warn" | "fail"
+  message: string
+  hint: string | null
+}
+
+// "linked" is a sideload whose src folder is a symlink to a relative source
+export type InstalledState = "sideloaded" | "linked" | "official" | "missing"
+
+export type InstallPlanEntry = {
+  sideload: SideloadRegistration
+  source: string
+  sha: string | null
+  targetDir: string
+  installedState: InstalledState
+}
+
+export type PackageStatus = {
+  packageName: string
+  version: string
+  state: InstalledState
+  configured: boolean
 }
 
 export type AppliedChange = {
   packageName: string
-  action: "sideloaded" | "restored" | "downloaded"
+  action: "sideloaded" | "linked" | "restored" | "downloaded" | "updated"
   source: string
 }
+
+// How the files of a sideload in ELM_HOME differ from its source; `missing` when it isn't in ELM_HOME at all
+export type PackageDrift = {
+  packageName: string
+  version: string
+  missing: boolean
+  added: string[]
+  removed: string[]
+  modified: string[]
+}
+
+// How a sideload's exposed API differs from the official package it replaces
+export type ApiCompatibility = {
+  packageName: string
+  version: string
+  removedModules: string[]
+  addedModules: string[]
+  changedModules: ModuleApiChanges[]
+}
+
+export type ModuleApiChanges = {
+  moduleName: string
+  removed: string[]
+  added: string[]
+  changed: string[]
+}